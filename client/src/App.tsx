@@ -1,12 +1,21 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChatPanel } from './components/ChatPanel';
 import { Chessboard } from './components/Chessboard';
 import { GameEndScreen } from './components/GameEndScreen';
+import { GameAnalysis } from './components/GameAnalysis';
+import { GamePanel } from './components/GamePanel';
 import { Lobby } from './components/Lobby';
 import { MoveNotation } from './components/MoveNotation';
 import { RematchModal } from './components/RematchModal';
 import { RulesModal } from './components/RulesModal/RulesModal';
 import { ToastContainer } from './components/Toast';
 import { useChessGame } from './hooks/useChessGame';
+import { useAnalysis } from './hooks/useAnalysis';
+import { useSpectator } from './hooks/useSpectator';
+import { RECONNECT_GRACE_MS } from './networking';
+import { getCheckProbability, isGameOver, isInCheck, replayHistory, type QuantumGameState } from './engine/ChessEngine';
+import { AI_LEVELS } from './engine/ai';
+import { RULESET_PRESETS, rulesetVariant } from './engine/rulesets';
 import { useToast } from './hooks/useToast';
 import './App.css';
 
@@ -69,33 +78,109 @@ function App() {
     isGameOver: gameOver,
     quantumMode,
     lastCollapse,
+    awaitingRandomness,
     splitMode,
     splitFrom,
     splitTo1,
+    splitRatio,
+    mergeMode,
+    mergeFrom1,
+    mergeFrom2,
     rematchRequested,
     rematchReceived,
+    drawOffered,
+    drawOfferReceived,
+    takebackRequested,
+    takebackReceived,
+    canAbort,
     peerDisconnected,
+    peerReconnecting,
+    spectatorCount,
+    chatMessages,
+    chatMuted,
+    savedGame,
     timerState,
     timeControl,
     flaggedPlayer,
+    isLocalGame,
+    aiOpponent,
+    aiThinking,
     createRoom,
     joinRoom,
+    startLocalGame,
+    importPGN,
     executeMove,
     disconnect,
     toggleSplitMode,
     handleSplitSelection,
+    setSplitRatio,
+    toggleMergeMode,
+    handleMergeSelection,
     resign,
+    offerDraw,
+    acceptDraw,
+    declineDraw,
+    requestTakeback,
+    acceptTakeback,
+    declineTakeback,
+    abortGame,
     requestRematch,
     acceptRematch,
-    declineRematch
+    declineRematch,
+    resumeGame,
+    discardSavedGame,
+    sendChat,
+    toggleChatMute
   } = useChessGame({ serverUrl: SERVER_URL });
 
+  // Watching someone else's game instead of playing
+  const spectator = useSpectator({ serverUrl: SERVER_URL });
+
   // Track if we've shown the connected message
   const hasShownConnectedRef = useRef(false);
 
+  // Hot-seat games can turn the board to face whoever is to move
+  const [autoFlip, setAutoFlip] = useState(true);
+
+  // Post-game luck vs skill breakdown - holds the finished game it was opened
+  // for, so a rematch closes it
+  const [analyzedGame, setAnalyzedGame] = useState<QuantumGameState | null>(null);
+
+  // Best-move arrows on the board (analysis only)
+  const [showBestMove, setShowBestMove] = useState(false);
+
   // Move navigation state (null = live view)
   const [viewingMoveIndex, setViewingMoveIndex] = useState<number | null>(null);
 
+  // Back to the live view when the game goes away or its history shrinks
+  // (new game, rematch, resume, takeback) - an old index would lock the board
+  const liveMoveCount = gameState?.moveHistory.length ?? null;
+  const [lastMoveCount, setLastMoveCount] = useState(liveMoveCount);
+  if (liveMoveCount !== lastMoveCount) {
+    setLastMoveCount(liveMoveCount);
+    if (liveMoveCount === null || (lastMoveCount !== null && liveMoveCount < lastMoveCount)) {
+      setViewingMoveIndex(null);
+    }
+  }
+
+  // Past position shown on the board while browsing history (null = live)
+  const historyState = useMemo(() => {
+    if (!gameState || viewingMoveIndex === null || viewingMoveIndex >= gameState.moveHistory.length - 1) {
+      return null;
+    }
+    try {
+      return replayHistory(gameState, viewingMoveIndex + 1);
+    } catch (err) {
+      console.error('[History]', err);
+      return null;
+    }
+  }, [gameState, viewingMoveIndex]);
+
+  // Engine analysis is for reviewing games: hot-seat games get it any time,
+  // games against a person or the computer only once they are over
+  const analysisEnabled = gameOver || (isLocalGame && !aiOpponent);
+  const analysis = useAnalysis(historyState ?? gameState, analysisEnabled);
+
   // Resign confirmation state
   const [showResignConfirm, setShowResignConfirm] = useState(false);
 
@@ -126,17 +211,26 @@ function App() {
     }
   }, [lastCollapse, success, warning]);
 
+  // Show forced check measurements as toast
+  const lastCheckMeasurement = gameState?.moveHistory[gameState.moveHistory.length - 1]?.checkMeasurement;
+  useEffect(() => {
+    if (lastCheckMeasurement) {
+      const msg = `🎲 Check measured: ${lastCheckMeasurement.player} king ${lastCheckMeasurement.inCheck ? 'IS in check' : 'is safe'} (${Math.round(lastCheckMeasurement.probability * 100)}%)`;
+      warning(msg, 4000);
+    }
+  }, [lastCheckMeasurement, warning]);
+
   useEffect(() => {
     // Only show "Connected" once per session
     if (isConnected && gameState && !hasShownConnectedRef.current) {
       hasShownConnectedRef.current = true;
       success('Connected! Game started.', 3000);
     }
-    // Reset when disconnected
-    if (!isConnected) {
+    // Reset when disconnected (a dropped peer coming back is the same game)
+    if (!isConnected && !peerReconnecting) {
       hasShownConnectedRef.current = false;
     }
-  }, [isConnected, gameState, success]);
+  }, [isConnected, peerReconnecting, gameState, success]);
 
   useEffect(() => {
     if (connectionState === 'connecting') {
@@ -152,15 +246,113 @@ function App() {
     }
   }, [gameState?.gameStatus]);
 
+  // Spectating: read-only board, moves and clocks from the host's snapshots
+  if (spectator.isWatching) {
+    const watched = spectator.gameState;
+    const watchFailed = spectator.connectionState === 'failed';
+    if (!watched) {
+      return (
+        <>
+          <ToastContainer toasts={toasts} onDismiss={removeToast} />
+          <div className="reconnecting-overlay" role="status" aria-labelledby="watch-title">
+            <div className="peer-disconnected-popup reconnecting-popup">
+              {watchFailed
+                ? <div className="disconnect-icon" aria-hidden="true">📡</div>
+                : <div className="spinner" aria-hidden="true"></div>}
+              <h3 id="watch-title">{watchFailed ? 'Cannot Watch' : 'Waiting for the Game...'}</h3>
+              <p>
+                {watchFailed
+                  ? `Room ${spectator.roomId} was not found, or has all the spectators it can take.`
+                  : `Watching room ${spectator.roomId}. The board appears once both players are in.`}
+              </p>
+              <button className="back-btn" onClick={spectator.stopWatching} aria-label="Return to lobby">
+                ← Back to Lobby
+              </button>
+            </div>
+          </div>
+        </>
+      );
+    }
+
+    const watchedOver = isGameOver(watched);
+    const watchedCheck = getCheckProbability(watched, watched.currentPlayer);
+    const sideLabel = (color: string) => color === 'white' ? 'White' : 'Black';
+    return (
+      <>
+        <ToastContainer toasts={toasts} onDismiss={removeToast} />
+
+        <div className="game-container" role="main" aria-label="Watching a Quantum Chess game">
+          <header className="game-info" role="banner">
+            <div className="player-info">
+              👁️ Watching room <strong>{spectator.roomId}</strong>
+              {watched.quantumMode && <span className="quantum-badge" aria-label="Quantum mode enabled">⚛️ Quantum</span>}
+            </div>
+            <div className="turn-info" role="status" aria-live="polite">
+              {watchedOver
+                ? `Game Over: ${watched.gameStatus.replace('_', ' ')}`
+                : spectator.connectionState === 'reconnecting' ? '📡 Host disconnected - waiting...'
+                : `🎯 ${sideLabel(watched.currentPlayer)} to move`}
+            </div>
+            {isInCheck(watched) && !watchedOver && (
+              <div className="check-warning" role="alert">
+                ⚠️ Check!{watchedCheck < 1 && ` (${Math.round(watchedCheck * 100)}%)`}
+              </div>
+            )}
+          </header>
+
+          <div className="board-and-notation" role="region" aria-label="Chess board and move history">
+            <div className="board-with-clocks">
+              <div className="clock-row opponent-clock-row">
+                <ChessClock
+                  timeMs={spectator.timerState.blackTimeMs}
+                  isActive={spectator.timerState.activeColor === 'black'}
+                  label="Black"
+                  isOpponent
+                />
+              </div>
+
+              <Chessboard
+                gameState={watched}
+                playerColor="white"
+                isMyTurn={false}
+                onMove={() => false}
+              />
+
+              <div className="clock-row player-clock-row">
+                <ChessClock
+                  timeMs={spectator.timerState.whiteTimeMs}
+                  isActive={spectator.timerState.activeColor === 'white'}
+                  label="White"
+                />
+              </div>
+            </div>
+
+            <MoveNotation gameState={watched} viewingMoveIndex={null} isGameOver={watchedOver} />
+          </div>
+
+          <nav className="game-controls" role="toolbar" aria-label="Spectator controls">
+            <div className="move-count">Move: {watched.turnNumber}</div>
+            <button className="resign-btn" onClick={spectator.stopWatching}>
+              ← Stop Watching
+            </button>
+          </nav>
+        </div>
+      </>
+    );
+  }
+
   // Show lobby if not in a game
   // BUT: If peer disconnected, stay in game to show the "connection lost" overlay
-  if (!gameState || (!isConnected && !peerDisconnected)) {
+  // (or the "reconnecting" one while the peer may still come back)
+  if (!gameState || (!isConnected && !peerDisconnected && !peerReconnecting && !isLocalGame)) {
     return (
       <>
         <ToastContainer toasts={toasts} onDismiss={removeToast} />
         <Lobby
           onCreateRoom={createRoom}
           onJoinRoom={joinRoom}
+          onWatchRoom={spectator.watch}
+          onStartLocal={startLocalGame}
           onCancel={roomId ? disconnect : undefined}
           roomId={roomId}
           isConnecting={connectionState === 'connecting'}
@@ -168,10 +360,38 @@ function App() {
           error={error}
           serverUrl={SERVER_URL}
         />
+        {/* Unfinished game from a crash or reload */}
+        {savedGame && (
+          <RematchModal
+            icon="💾"
+            title="Resume Game?"
+            message={`You have an unfinished game ${savedGame.roomId ? `in room ${savedGame.roomId}` : 'on this device'} (move ${Math.ceil(savedGame.state.moveHistory.length / 2)}). Pick it up where you left off?`}
+            onAccept={resumeGame}
+            onDecline={discardSavedGame}
+          />
+        )}
       </>
     );
   }
 
+  // Chance the side to move is in check, across all board realities
+  const checkProbability = getCheckProbability(gameState, gameState.currentPlayer);
+
+  // Both colours played on this device (a computer game is local too, but one-sided)
+  const isHotSeat = isLocalGame && !aiOpponent;
+
+  // Side shown at the bottom of the board (hot-seat games may stay on white)
+  const boardOrientation = isHotSeat && !autoFlip ? 'white' : playerColor;
+  const topColor = boardOrientation === 'white' ? 'black' : 'white';
+  const colorLabel = (color: string) => color === 'white' ? 'White' : 'Black';
+
+  // Merging needs at least one of our pieces in superposition
+  const hasSuperposedPiece = Array.from(gameState.pieces.values())
+    .some(p => p.owner === playerColor && p.isInSuperposition);
+
+  // Named rules preset of this game (null for a custom mix)
+  const variant = rulesetVariant(gameState.rules);
+
   // Show game
   return (
     <>
@@ -180,8 +400,12 @@ function App() {
       <div className="game-container" role="main" aria-label="Quantum Chess Game">
         <header className="game-info" role="banner">
           <div className="player-info" aria-label={`Playing as ${playerColor}`}>
-            Playing as: <strong>{playerColor}</strong>
+            {isHotSeat ? <>Local game: <strong>hot-seat</strong></> : <>Playing as: <strong>{playerColor}</strong></>}
+            {aiOpponent && <> vs <strong>Computer ({AI_LEVELS[aiOpponent.level].label})</strong></>}
             {quantumMode && <span className="quantum-badge" aria-label="Quantum mode enabled">⚛️ Quantum</span>}
+            {spectatorCount > 0 && (
+              <span className="spectator-badge" aria-label={`${spectatorCount} watching`}>👁️ {spectatorCount}</span>
+            )}
           </div>
           <div
             className="turn-info"
@@ -189,16 +413,29 @@ function App() {
             aria-live="polite"
             aria-label={gameOver
               ? `Game Over: ${gameState.gameStatus.replace('_', ' ')}`
+              : awaitingRandomness ? "Rolling quantum dice"
+              : aiThinking ? "Computer is thinking"
+              : isHotSeat ? `${colorLabel(gameState.currentPlayer)} to move`
               : isMyTurn ? "Your turn" : "Opponent's turn"
             }
           >
             {gameOver
               ? `Game Over: ${gameState.gameStatus.replace('_', ' ')}`
+              : awaitingRandomness ? "🎲 Rolling quantum dice..."
+              : aiThinking ? "🤖 Computer is thinking..."
+              : isHotSeat ? `🎯 ${colorLabel(gameState.currentPlayer)} to move`
               : isMyTurn ? "🎯 Your turn" : "⏳ Opponent's turn"
             }
           </div>
-          {gameState.chess.isCheck() && !gameOver && (
-            <div className="check-warning" role="alert" aria-live="assertive">⚠️ Check!</div>
+          {isInCheck(gameState) && !gameOver && (
+            <div className="check-warning" role="alert" aria-live="assertive">
+              ⚠️ Check!{checkProbability < 1 && ` (${Math.round(checkProbability * 100)}%)`}
+            </div>
+          )}
+          {historyState && (
+            <div className="history-banner" role="status">
+              📜 Viewing move {viewingMoveIndex! + 1} of {gameState.moveHistory.length} - press → or ⏭ to return
+            </div>
           )}
 
         </header>
@@ -208,30 +445,38 @@ function App() {
             {/* Opponent's Clock - above board, aligned right (h-file) */}
             <div className="clock-row opponent-clock-row">
               <ChessClock
-                timeMs={playerColor === 'white' ? timerState.blackTimeMs : timerState.whiteTimeMs}
-                isActive={timerState.activeColor === (playerColor === 'white' ? 'black' : 'white')}
-                label="Opponent"
+                timeMs={topColor === 'white' ? timerState.whiteTimeMs : timerState.blackTimeMs}
+                isActive={timerState.activeColor === topColor}
+                label={isHotSeat ? colorLabel(topColor) : aiOpponent ? 'Computer' : 'Opponent'}
                 isOpponent
               />
             </div>
 
             <Chessboard
-              gameState={gameState}
+              gameState={historyState ?? gameState}
               playerColor={playerColor}
-              isMyTurn={isMyTurn}
+              orientation={boardOrientation}
+              isMyTurn={isMyTurn && !historyState}
               onMove={executeMove}
               splitMode={splitMode}
               splitFrom={splitFrom}
               splitTo1={splitTo1}
               onSplitSelection={handleSplitSelection}
+              splitRatio={splitRatio}
+              onSplitRatioChange={gameState.rules.allowUnevenSplits ? setSplitRatio : undefined}
+              mergeMode={mergeMode}
+              mergeFrom1={mergeFrom1}
+              mergeFrom2={mergeFrom2}
+              onMergeSelection={handleMergeSelection}
+              hintMove={showBestMove ? analysis?.bestMove : null}
             />
 
             {/* Player's Clock - below board, aligned left (a-file) */}
             <div className="clock-row player-clock-row">
               <ChessClock
-                timeMs={playerColor === 'white' ? timerState.whiteTimeMs : timerState.blackTimeMs}
-                isActive={timerState.activeColor === playerColor}
-                label="You"
+                timeMs={boardOrientation === 'white' ? timerState.whiteTimeMs : timerState.blackTimeMs}
+                isActive={timerState.activeColor === boardOrientation}
+                label={isHotSeat ? colorLabel(boardOrientation) : 'You'}
               />
             </div>
           </div>
@@ -242,6 +487,32 @@ function App() {
             onNavigate={setViewingMoveIndex}
             isGameOver={gameOver}
           />
+
+          <GamePanel
+            gameState={gameState}
+            playerColor={playerColor}
+            isConnected={isConnected}
+            roomId={roomId ?? undefined}
+            timeControl={timeControl}
+            analysis={analysis}
+            showBestMove={showBestMove}
+            onToggleBestMove={() => setShowBestMove(prev => !prev)}
+            onImportPGN={isLocalGame ? (pgn) => {
+              setViewingMoveIndex(null);
+              importPGN(pgn);
+            } : undefined}
+          />
+
+          {/* Chat with the opponent - stays open after the game to talk rematch */}
+          {!isLocalGame && (
+            <ChatPanel
+              messages={chatMessages}
+              onSend={sendChat}
+              muted={chatMuted}
+              onToggleMute={toggleChatMute}
+              disabled={!isConnected}
+            />
+          )}
         </div>
 
         <nav className="game-controls" role="toolbar" aria-label="Game controls">
@@ -259,9 +530,57 @@ function App() {
               {splitMode ? '❌ Cancel Split' : '⚛️ Split Move'}
             </button>
           )}
+          {quantumMode && isMyTurn && !gameOver && hasSuperposedPiece && (
+            <button
+              className={`split-btn ${mergeMode ? 'active' : ''}`}
+              onClick={toggleMergeMode}
+              aria-pressed={mergeMode}
+              aria-label={mergeMode ? 'Cancel merge move mode' : 'Enable merge move mode'}
+            >
+              {mergeMode ? '❌ Cancel Merge' : '🔗 Merge Move'}
+            </button>
+          )}
 
-          {/* Resign button */}
+          {/* Hot-seat: turn the board towards the side to move */}
+          {isHotSeat && (
+            <button
+              className={`split-btn ${autoFlip ? 'active' : ''}`}
+              onClick={() => setAutoFlip(prev => !prev)}
+              aria-pressed={autoFlip}
+            >
+              🔃 Auto-flip {autoFlip ? 'On' : 'Off'}
+            </button>
+          )}
+
+          {/* Takeback and draw - online they ask the opponent */}
           {!gameOver && (
+            <button
+              className={`split-btn ${takebackRequested ? 'pending' : ''}`}
+              onClick={requestTakeback}
+              disabled={takebackRequested || awaitingRandomness || gameState.moveHistory.length === 0}
+              aria-label={takebackRequested ? 'Waiting for opponent to accept takeback' : 'Request takeback'}
+            >
+              {takebackRequested ? '⏳ Takeback...' : '↩️ Takeback'}
+            </button>
+          )}
+          {!gameOver && !canAbort && (
+            <button
+              className={`split-btn ${drawOffered ? 'pending' : ''}`}
+              onClick={offerDraw}
+              disabled={drawOffered}
+              aria-label={drawOffered ? 'Waiting for opponent to answer draw offer' : 'Offer draw'}
+            >
+              {drawOffered ? '⏳ Draw offered' : '🤝 Offer Draw'}
+            </button>
+          )}
+
+          {/* Abort before both players have moved, resign after */}
+          {canAbort && (
+            <button className="resign-btn" onClick={abortGame} aria-label="Abort game">
+              ✖ Abort
+            </button>
+          )}
+          {!gameOver && !canAbort && (
             <button
               className="resign-btn"
               onClick={() => setShowResignConfirm(true)}
@@ -282,6 +601,13 @@ function App() {
               {rematchRequested ? '⏳ Waiting...' : '🔄 Rematch'}
             </button>
           )}
+
+          {/* Luck vs skill breakdown - also reachable after closing the end screen */}
+          {gameOver && (
+            <button className="split-btn" onClick={() => setAnalyzedGame(gameState)}>
+              📈 Analysis
+            </button>
+          )}
         </nav>
 
         {/* Resign confirmation popup */}
@@ -313,6 +639,23 @@ function App() {
           </div>
         )}
 
+        {/* Reconnecting overlay - the dropped peer has a grace period to come back */}
+        {peerReconnecting && !gameOver && (
+          <div className="reconnecting-overlay" role="alertdialog" aria-modal="true" aria-labelledby="reconnect-title">
+            <div className="peer-disconnected-popup reconnecting-popup">
+              <div className="spinner" aria-hidden="true"></div>
+              <h3 id="reconnect-title">Reconnecting...</h3>
+              <p>The connection to your opponent dropped. Waiting up to {RECONNECT_GRACE_MS / 1000} seconds for it to come back.</p>
+              <p className="grace-period">
+                {timeControl.onDisconnect === 'run' ? 'The clock keeps running.' : 'Clocks are paused.'}
+              </p>
+              <button className="back-btn" onClick={disconnect} aria-label="Leave game and return to lobby">
+                ← Leave Game
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Peer disconnected overlay - game ends when connection is lost */}
         {peerDisconnected && !gameOver && (
           <div className="peer-disconnected-overlay" role="alertdialog" aria-modal="true" aria-labelledby="disconnect-title">
@@ -336,9 +679,16 @@ function App() {
             <div className="quantum-instructions">
               <strong>⚛️ Quick Tips:</strong>
               <ul>
-                <li><strong>Split:</strong> Put a piece in two places at once (50/50)</li>
+                <li><strong>Split:</strong> Put a piece in two places at once ({gameState.rules.allowUnevenSplits ? 'pick the odds' : '50/50'})</li>
+                <li><strong>Merge:</strong> Bring two positions of a split piece back onto one square</li>
                 <li><strong>Capture:</strong> Superposition pieces collapse randomly - they might escape!</li>
-                <li><strong>Limit:</strong> Max {gameState.maxSuperpositions} pieces in superposition per player</li>
+                <li><strong>Limit:</strong> Max {gameState.rules.maxSuperpositions} pieces in superposition per player</li>
+                {gameState.setup.kind === 'chess960' && (
+                  <li><strong>Castle:</strong> Move the king onto its rook (Chess960)</li>
+                )}
+                {variant && variant !== 'classic' && (
+                  <li><strong>Rules:</strong> {RULESET_PRESETS[variant].description}</li>
+                )}
               </ul>
             </div>
           </div>
@@ -359,13 +709,50 @@ function App() {
           <GameEndScreen
             gameState={gameState}
             playerColor={playerColor}
+            isLocalGame={isHotSeat}
             onOk={() => setGameEndDismissed(true)}
             onRematch={requestRematch}
             onBackToLobby={disconnect}
+            onAnalyze={() => {
+              setGameEndDismissed(true);
+              setAnalyzedGame(gameState);
+            }}
             rematchRequested={rematchRequested}
           />
         )}
 
+        {/* Post-game analysis - clicking a measurement shows that position */}
+        {gameOver && analyzedGame === gameState && (
+          <GameAnalysis
+            gameState={gameState}
+            onClose={() => setAnalyzedGame(null)}
+            onSelectMove={(moveIndex) => {
+              setViewingMoveIndex(moveIndex);
+              setAnalyzedGame(null);
+            }}
+          />
+        )}
+
+        {/* Opponent's draw offer and takeback request */}
+        {drawOfferReceived && !gameOver && (
+          <RematchModal
+            icon="🤝"
+            title="Draw Offer"
+            message="Your opponent offers a draw."
+            onAccept={acceptDraw}
+            onDecline={declineDraw}
+          />
+        )}
+        {takebackReceived && !gameOver && (
+          <RematchModal
+            icon="↩️"
+            title="Takeback Request"
+            message="Your opponent wants to take back their last move."
+            onAccept={acceptTakeback}
+            onDecline={declineTakeback}
+          />
+        )}
+
         {/* Rematch Request modal - shows when opponent requests rematch */}
         {rematchReceived && (
           <RematchModal
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChatMessage } from '../../hooks/useChessGame';
+import { CHAT_MAX_LENGTH, QUICK_MESSAGES } from '../../networking';
+import './ChatPanel.css';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  onSend: (text: string) => boolean; // false = over the rate limit
+  muted: boolean;
+  onToggleMute: () => void;
+  disabled?: boolean; // Opponent not connected
+}
+
+export function ChatPanel({ messages, onSend, muted, onToggleMute, disabled = false }: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [rateLimited, setRateLimited] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  // The "slow down" note goes away by itself
+  useEffect(() => {
+    if (!rateLimited) return;
+    const timeout = setTimeout(() => setRateLimited(false), 3000);
+    return () => clearTimeout(timeout);
+  }, [rateLimited]);
+
+  // Muting hides the opponent's messages, old ones included
+  const shown = muted ? messages.filter(message => message.from === 'me') : messages;
+
+  const send = (text: string) => {
+    if (!text.trim()) return;
+    if (onSend(text)) {
+      setDraft('');
+    } else {
+      setRateLimited(true);
+    }
+  };
+
+  return (
+    <aside className="chat-panel" aria-label="Chat with opponent">
+      <div className="chat-header">
+        <h3>💬 Chat</h3>
+        <button
+          className={`chat-mute-btn ${muted ? 'active' : ''}`}
+          onClick={onToggleMute}
+          aria-pressed={muted}
+          aria-label={muted ? 'Unmute opponent' : 'Mute opponent'}
+          title={muted ? 'Unmute opponent' : 'Mute opponent'}
+        >
+          {muted ? '🔇' : '🔊'}
+        </button>
+      </div>
+
+      <div className="chat-messages" ref={listRef} role="log" aria-live="polite">
+        {shown.length === 0 && <div className="chat-empty">No messages yet</div>}
+        {shown.map(message => (
+          <div key={message.id} className={`chat-message ${message.from}`}>
+            <span className="chat-author">{message.from === 'me' ? 'You' : 'Opponent'}</span>
+            <span className="chat-text">{message.text}</span>
+          </div>
+        ))}
+        {muted && <div className="chat-empty">Opponent is muted</div>}
+      </div>
+
+      <div className="chat-quick" role="group" aria-label="Quick messages">
+        {QUICK_MESSAGES.map(text => (
+          <button key={text} className="chat-quick-btn" onClick={() => send(text)} disabled={disabled}>
+            {text}
+          </button>
+        ))}
+      </div>
+
+      <form
+        className="chat-form"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={CHAT_MAX_LENGTH}
+          placeholder={disabled ? 'Opponent not connected' : 'Say something...'}
+          disabled={disabled}
+          aria-label="Chat message"
+          autoComplete="off"
+        />
+        <button type="submit" disabled={disabled || !draft.trim()}>Send</button>
+      </form>
+      {rateLimited && <div className="chat-rate-limit" role="status">Slow down - too many messages</div>}
+    </aside>
+  );
+}
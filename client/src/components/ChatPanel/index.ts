@@ -0,0 +1 @@
+export { ChatPanel } from './ChatPanel';
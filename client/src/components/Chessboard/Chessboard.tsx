@@ -1,30 +1,51 @@
 import { useCallback, useState } from 'react';
 import { Chessboard as ReactChessboard } from 'react-chessboard';
 import type { Square } from 'chess.js';
-import type { QuantumGameState } from '../../engine/ChessEngine';
-import { getSuperpositionPieces, getBoardPosition, findPieceAtSquare, getLegalMovesFromSquare } from '../../engine/ChessEngine';
+import type { QuantumGameState, QuantumMove } from '../../engine/ChessEngine';
+import { getSuperpositionPieces, getBoardPosition, findPieceAtSquare, getLegalMovesFromSquare, isInCheck } from '../../engine/ChessEngine';
 import './Chessboard.css';
 
 interface ChessboardProps {
   gameState: QuantumGameState;
   playerColor: 'white' | 'black';
+  orientation?: 'white' | 'black'; // Side at the bottom (defaults to playerColor)
   isMyTurn: boolean;
   onMove: (from: Square, to: Square, promotion?: string) => boolean;
   splitMode?: boolean;
   splitFrom?: Square | null;
   splitTo1?: Square | null;
   onSplitSelection?: (square: Square) => void;
+  splitRatio?: number; // Share of the piece going to the first target
+  onSplitRatioChange?: (ratio: number) => void; // Only when the room allows uneven splits
+  mergeMode?: boolean;
+  mergeFrom1?: Square | null;
+  mergeFrom2?: Square | null;
+  onMergeSelection?: (square: Square) => void;
+  hintMove?: QuantumMove | null; // Drawn as arrows (two for splits and merges)
 }
 
+const HINT_ARROW_COLOR = 'rgba(255, 170, 0, 0.85)';
+
+// Split ratios offered in the split UI (share going to the first target)
+const SPLIT_RATIOS = [0.25, 0.5, 0.75];
+
 export function Chessboard({
   gameState,
   playerColor,
+  orientation = playerColor,
   isMyTurn,
   onMove,
   splitMode = false,
   splitFrom = null,
   splitTo1 = null,
-  onSplitSelection
+  onSplitSelection,
+  splitRatio = 0.5,
+  onSplitRatioChange,
+  mergeMode = false,
+  mergeFrom1 = null,
+  mergeFrom2 = null,
+  onMergeSelection,
+  hintMove = null
 }: ChessboardProps) {
   const [moveFrom, setMoveFrom] = useState<string | null>(null);
   const [optionSquares, setOptionSquares] = useState<Record<string, React.CSSProperties>>({});
@@ -68,6 +89,12 @@ export function Chessboard({
       return;
     }
 
+    // MERGE MODE: Handle quantum merge selection
+    if (mergeMode && onMergeSelection) {
+      onMergeSelection(square as Square);
+      return;
+    }
+
     // If clicking on a legal move target, make the move
     if (moveFrom && optionSquares[square]) {
       // Check for promotion - need to check both chess.js and quantum state
@@ -122,13 +149,13 @@ export function Chessboard({
       setMoveFrom(null);
       setOptionSquares({});
     }
-  }, [isMyTurn, moveFrom, optionSquares, gameState, playerColor, onMove, splitMode, onSplitSelection]);
+  }, [isMyTurn, moveFrom, optionSquares, gameState, playerColor, onMove, splitMode, onSplitSelection, mergeMode, onMergeSelection]);
 
   // Custom square styles for check indication and quantum highlighting
   const customSquareStyles: Record<string, React.CSSProperties> = { ...optionSquares };
 
-  // Highlight king in check
-  if (gameState.chess.isCheck()) {
+  // Highlight king in check (in any branch)
+  if (isInCheck(gameState)) {
     const turn = gameState.chess.turn();
     const board = gameState.chess.board();
     for (let rank = 0; rank < 8; rank++) {
@@ -214,6 +241,26 @@ export function Chessboard({
     }
   }
 
+  // Highlight merge mode selections
+  if (mergeMode) {
+    for (const square of [mergeFrom1, mergeFrom2]) {
+      if (square) {
+        customSquareStyles[square] = {
+          ...customSquareStyles[square],
+          background: 'rgba(138, 43, 226, 0.5)',
+          boxShadow: 'inset 0 0 15px rgba(138, 43, 226, 0.8)'
+        };
+      }
+    }
+  }
+
+  // Suggested move: a split fans out to both targets, a merge joins both sources
+  const hintArrows = !hintMove ? [] : [
+    { startSquare: hintMove.from, endSquare: hintMove.to, color: HINT_ARROW_COLOR },
+    ...(hintMove.to2 ? [{ startSquare: hintMove.from, endSquare: hintMove.to2, color: HINT_ARROW_COLOR }] : []),
+    ...(hintMove.from2 ? [{ startSquare: hintMove.from2, endSquare: hintMove.to, color: HINT_ARROW_COLOR }] : [])
+  ];
+
   return (
     <div className="chessboard-wrapper">
       <ReactChessboard
@@ -221,10 +268,11 @@ export function Chessboard({
           position: quantumPosition,  // Use quantum position, not chess.js FEN!
           onPieceDrop: handlePieceDrop,
           onSquareClick: handleSquareClick,
-          boardOrientation: playerColor,
+          boardOrientation: orientation,
           squareStyles: customSquareStyles,
+          arrows: hintArrows,
           animationDurationInMs: 200,
-          allowDragging: isMyTurn && !splitMode,
+          allowDragging: isMyTurn && !splitMode && !mergeMode,
           boardStyle: {
             borderRadius: '8px',
             boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
@@ -249,7 +297,7 @@ export function Chessboard({
             style={{
               position: 'absolute',
               background: badgeColor,
-              ...getSquarePosition(sp.square, playerColor)
+              ...getSquarePosition(sp.square, orientation)
             }}
           >
             {Math.round(sp.probability * 100)}%
@@ -266,6 +314,32 @@ export function Chessboard({
           {splitFrom && splitTo1 && <span> | Click 2nd target</span>}
           {splitFrom && !splitTo1 && <span> | Click 1st target</span>}
           {!splitFrom && <span> | Click piece to split</span>}
+          {onSplitRatioChange && (
+            <span className="split-ratio-picker" role="group" aria-label="Split ratio">
+              {SPLIT_RATIOS.map(ratio => (
+                <button
+                  key={ratio}
+                  className={`split-ratio-btn ${Math.abs(ratio - splitRatio) < 1e-9 ? 'active' : ''}`}
+                  onClick={() => onSplitRatioChange(ratio)}
+                  aria-pressed={Math.abs(ratio - splitRatio) < 1e-9}
+                >
+                  {Math.round(ratio * 100)}/{Math.round((1 - ratio) * 100)}
+                </button>
+              ))}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Merge mode indicator */}
+      {mergeMode && (
+        <div className="split-mode-indicator">
+          ⚛️ MERGE MODE
+          {mergeFrom1 && <span> | From: {mergeFrom1}</span>}
+          {mergeFrom2 && <span> + {mergeFrom2}</span>}
+          {mergeFrom1 && mergeFrom2 && <span> | Click target</span>}
+          {mergeFrom1 && !mergeFrom2 && <span> | Click 2nd position</span>}
+          {!mergeFrom1 && <span> | Click a superposed piece</span>}
         </div>
       )}
 
@@ -0,0 +1,147 @@
+import { useMemo } from 'react';
+import type { QuantumGameState, MoveRecord, Player } from '../../engine/ChessEngine';
+import { analyzeGame, type GameAnalysis as Analysis, type MeasurementReport } from '../../engine/analysis';
+import './GameAnalysis.css';
+
+interface GameAnalysisProps {
+  gameState: QuantumGameState;
+  onClose: () => void;
+  onSelectMove?: (moveIndex: number) => void; // Show that position on the board
+}
+
+const GRAPH_WIDTH = 320;
+const GRAPH_HEIGHT = 120;
+
+// "+12%" - luck is in expected score, shown as percentage points
+function formatLuck(luck: number): string {
+  const points = Math.round(luck * 100);
+  return `${points > 0 ? '+' : ''}${points}%`;
+}
+
+// "12... Bc8xh3" style label for a move ("Ra1-a5" when it captured nothing)
+function moveLabel(record: MoveRecord, moveIndex: number): string {
+  const number = `${Math.floor(moveIndex / 2) + 1}${moveIndex % 2 === 0 ? '.' : '...'}`;
+  const separator = record.captured || record.type === 'quantum_capture' ? 'x' : '-';
+  return `${number} ${record.piece.charAt(1) === 'P' ? '' : record.piece.charAt(1)}${record.from}${separator}${record.to}`;
+}
+
+// "40% clear → through, 70% → captured" - every measurement the move made
+function measurementDetail(m: MeasurementReport): string {
+  const parts: string[] = [];
+  if (m.path) parts.push(`${percent(m.path.probability)} clear → ${m.path.clear ? 'through' : 'blocked'}`);
+  if (m.capture) parts.push(`${percent(m.capture.probability)} → ${m.capture.hit ? 'captured' : 'escaped'}`);
+  if (m.attack) parts.push(`${percent(m.attack.probability)} → ${m.attack.pieceId} observed on ${m.attack.square}`);
+  if (m.check) parts.push(`${percent(m.check.probability)} check → ${m.check.inCheck ? 'in check' : 'safe'}`);
+  return parts.join(', ');
+}
+
+function percent(probability: number): string {
+  return `${Math.round(probability * 100)}%`;
+}
+
+function colorName(player: Player): string {
+  return player === 'white' ? 'White' : 'Black';
+}
+
+function verdict(analysis: Analysis): string {
+  const { winner, luck } = analysis;
+  if (!winner) {
+    return `Luck: White ${formatLuck(luck.white)}, Black ${formatLuck(luck.black)}`;
+  }
+  const winnerLuck = formatLuck(luck[winner]);
+  if (Math.abs(luck[winner]) < 0.05) return `${colorName(winner)} won on the moves - the dice were neutral (${winnerLuck})`;
+  return analysis.winnerWasLucky
+    ? `${colorName(winner)} won with help from the dice (${winnerLuck})`
+    : `${colorName(winner)} won despite the dice (${winnerLuck})`;
+}
+
+// SVG polyline points for a series of 0-1 scores (white at the top)
+function toPoints(scores: number[]): string {
+  const step = GRAPH_WIDTH / Math.max(1, scores.length - 1);
+  return scores.map((score, i) => `${(i * step).toFixed(1)},${((1 - score) * GRAPH_HEIGHT).toFixed(1)}`).join(' ');
+}
+
+export function GameAnalysis({ gameState, onClose, onSelectMove }: GameAnalysisProps) {
+  const analysis = useMemo(() => {
+    try {
+      return analyzeGame(gameState);
+    } catch (err) {
+      console.error('[Analysis]', err);
+      return null;
+    }
+  }, [gameState]);
+
+  const step = analysis ? GRAPH_WIDTH / Math.max(1, analysis.expectedScores.length - 1) : 0;
+
+  return (
+    <div className="analysis-overlay" onClick={onClose}>
+      <div className="analysis-modal" role="dialog" aria-modal="true" aria-labelledby="analysis-title" onClick={(e) => e.stopPropagation()}>
+        <button className="modal-close" onClick={onClose} aria-label="Close">
+          ✕
+        </button>
+        <h2 id="analysis-title">📈 Game Analysis</h2>
+
+        {!analysis ? (
+          <p className="analysis-empty">This game's history could not be replayed.</p>
+        ) : (
+          <>
+            <p className="analysis-verdict">{verdict(analysis)}</p>
+
+            <div className="analysis-luck">
+              {(['white', 'black'] as const).map(player => (
+                <div key={player} className={`luck-stat ${analysis.luck[player] >= 0 ? 'lucky' : 'unlucky'}`}>
+                  <span className="luck-value">{formatLuck(analysis.luck[player])}</span>
+                  <span className="luck-label">{colorName(player)}'s luck</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="analysis-graph">
+              <svg viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} preserveAspectRatio="none" aria-label="White's expected score over the game">
+                <line x1={0} y1={GRAPH_HEIGHT / 2} x2={GRAPH_WIDTH} y2={GRAPH_HEIGHT / 2} className="graph-midline" />
+                <polyline points={toPoints(analysis.skillScores)} className="graph-skill" />
+                <polyline points={toPoints(analysis.expectedScores)} className="graph-actual" />
+                {analysis.measurements.map(m => (
+                  <circle
+                    key={m.moveIndex}
+                    cx={(m.moveIndex + 1) * step}
+                    cy={(1 - analysis.expectedScores[m.moveIndex + 1]!) * GRAPH_HEIGHT}
+                    r={3}
+                    className={m.luck >= 0 ? 'graph-lucky' : 'graph-unlucky'}
+                  />
+                ))}
+              </svg>
+              <div className="graph-legend">
+                <span className="legend-actual">— White's expected score</span>
+                <span className="legend-skill">- - Without luck</span>
+              </div>
+            </div>
+
+            {analysis.measurements.length === 0 ? (
+              <p className="analysis-empty">No measurements this game - every result came from the moves.</p>
+            ) : (
+              <ul className="measurement-list">
+                {analysis.measurements.map(m => (
+                  <li key={m.moveIndex}>
+                    <button
+                      className="measurement-row"
+                      onClick={() => onSelectMove?.(m.moveIndex)}
+                      disabled={!onSelectMove}
+                      title="Show this position on the board"
+                    >
+                      <span className="measurement-move">{moveLabel(gameState.moveHistory[m.moveIndex]!, m.moveIndex)}</span>
+                      <span className="measurement-detail">{measurementDetail(m)}</span>
+                      <span className={`measurement-luck ${m.luck >= 0 ? 'lucky' : 'unlucky'}`}>
+                        {colorName(m.player)} {formatLuck(m.luck)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
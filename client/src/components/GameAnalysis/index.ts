@@ -0,0 +1 @@
+export { GameAnalysis } from './GameAnalysis';
@@ -4,18 +4,22 @@ import './GameEndScreen.css';
 interface GameEndScreenProps {
   gameState: QuantumGameState;
   playerColor: Player;
+  isLocalGame?: boolean; // Hot-seat: no "you", just announce the winner
   onOk: () => void;
   onRematch: () => void;
   onBackToLobby: () => void;
+  onAnalyze?: () => void;
   rematchRequested: boolean;
 }
 
 export function GameEndScreen({
   gameState,
   playerColor,
+  isLocalGame = false,
   onOk,
   onRematch,
   onBackToLobby,
+  onAnalyze,
   rematchRequested
 }: GameEndScreenProps) {
   const isWinner =
@@ -25,7 +29,9 @@ export function GameEndScreen({
   const isDraw = gameState.gameStatus?.startsWith('draw');
 
   const getTitle = () => {
+    if (gameState.gameStatus === 'aborted') return '✖ Game Aborted';
     if (isDraw) return '🤝 Draw!';
+    if (isLocalGame) return gameState.gameStatus === 'white_wins' ? '🏆 White Wins!' : '🏆 Black Wins!';
     if (isWinner) return '🎉 Victory!';
     return '😔 Defeat';
   };
@@ -39,9 +45,21 @@ export function GameEndScreen({
     }
     // Check for timeout
     if (gameState.resultReason === 'timeout') {
+      const flag = gameState.flag;
+      const measured = flag && flag.probability < 1 ? ` (measured, ${Math.round(flag.probability * 100)}%)` : '';
+      if (isDraw) {
+        const flagged = flag?.player === 'black' ? 'Black' : 'White';
+        return `${flagged} ran out of time, but the opponent cannot mate - draw${measured}`;
+      }
       return gameState.gameStatus === 'white_wins'
-        ? 'White wins on time!'
-        : 'Black wins on time!';
+        ? `White wins on time!${measured}`
+        : `Black wins on time!${measured}`;
+    }
+    // Check for a failed randomness exchange
+    if (gameState.resultReason === 'protocol_violation') {
+      return gameState.gameStatus === 'white_wins'
+        ? 'Black failed the randomness check'
+        : 'White failed the randomness check';
     }
     switch (gameState.gameStatus) {
       case 'white_wins': return 'White wins by checkmate!';
@@ -51,6 +69,7 @@ export function GameEndScreen({
       case 'draw_agreement': return 'Draw by agreement';
       case 'draw_repetition': return 'Draw by threefold repetition';
       case 'draw_insufficient': return 'Draw by insufficient material';
+      case 'aborted': return 'Aborted before both players moved - no result';
       default: return '';
     }
   };
@@ -73,7 +92,7 @@ export function GameEndScreen({
       aria-labelledby="game-end-title"
       aria-describedby="game-end-subtitle"
     >
-      <div className={`game-end-modal ${isWinner ? 'winner' : isDraw ? 'draw' : 'loser'}`}>
+      <div className={`game-end-modal ${isDraw ? 'draw' : isWinner || isLocalGame ? 'winner' : 'loser'}`}>
         <h1 id="game-end-title" className="end-title">{getTitle()}</h1>
         <p id="game-end-subtitle" className="end-subtitle">{getSubtitle()}</p>
 
@@ -112,6 +131,11 @@ export function GameEndScreen({
             {rematchRequested ? '⏳ Waiting...' : '🔄 Rematch'}
           </button>
         </div>
+        {onAnalyze && (
+          <button className="back-to-lobby-btn" onClick={onAnalyze} aria-label="Analyze luck and skill in this game">
+            📈 Luck vs Skill Analysis
+          </button>
+        )}
         <button className="back-to-lobby-btn" onClick={onBackToLobby} aria-label="Return to lobby">
           ← Back to Lobby
         </button>
@@ -0,0 +1,43 @@
+import { MATE_SCORE, scoreToWinProbability } from '../../engine/ai';
+import type { PositionAnalysis } from '../../hooks/useAnalysis';
+
+interface EvaluationBarProps {
+  analysis: PositionAnalysis;
+  showBestMove: boolean;
+  onToggleBestMove: () => void;
+}
+
+// "+1.25" in pawns, or "M" for a forced win
+function formatScore(score: number): string {
+  if (Math.abs(score) >= MATE_SCORE - 100) return score > 0 ? '+M' : '-M';
+  const pawns = score / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+export function EvaluationBar({ analysis, showBestMove, onToggleBestMove }: EvaluationBarProps) {
+  const { evaluation, score, isAnalyzing } = analysis;
+
+  return (
+    <div className="evaluation">
+      <div className="eval-bar" title="Evaluation from white's point of view">
+        <div className="eval-bar-white" style={{ width: `${scoreToWinProbability(score) * 100}%` }} />
+        <span className="eval-score">{formatScore(score)}</span>
+      </div>
+      <ul className="eval-terms">
+        <li><span>Material</span><span>{formatScore(evaluation.material)}</span></li>
+        <li title="Bonus for pieces in superposition"><span>Uncertainty</span><span>{formatScore(evaluation.uncertainty)}</span></li>
+        <li title="Kings in check or exposed in some branches"><span>King safety</span><span>{formatScore(evaluation.kingSafety)}</span></li>
+      </ul>
+      <div className="eval-footer">
+        <span className="eval-status">{isAnalyzing ? '🔍 Searching...' : '✓ Search done'}</span>
+        <button
+          className={`action-btn ${showBestMove ? 'export-btn' : 'import-btn'}`}
+          onClick={onToggleBestMove}
+          aria-pressed={showBestMove}
+        >
+          💡 {showBestMove ? 'Hide' : 'Show'} best move
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,61 @@
-import { useCallback } from 'react';
-import type { GameState, Player } from '@engine/types';
-import { getKingProbability } from '@engine/board';
-import { serializeState } from '@engine/board';
+import { useCallback, useRef } from 'react';
+import type { QuantumGameState, Player } from '../../engine/ChessEngine';
+import { getCheckProbability, toQuantumFEN } from '../../engine/ChessEngine';
+import { toQuantumPGN } from '../../engine/pgn';
+import type { TimeControl } from '../../hooks/useChessGame';
+import type { PositionAnalysis } from '../../hooks/useAnalysis';
 import { MoveList } from './MoveList';
+import { EvaluationBar } from './EvaluationBar';
 import './GamePanel.css';
 
 interface GamePanelProps {
-  gameState: GameState;
+  gameState: QuantumGameState;
   playerColor: Player;
   isConnected: boolean;
   roomId?: string;
-  onImportGame?: (gameState: GameState) => void;
+  timeControl?: TimeControl;
+  analysis?: PositionAnalysis | null; // null = not available (online game in progress)
+  showBestMove?: boolean;
+  onToggleBestMove?: () => void;
+  onImportPGN?: (pgn: string) => void; // Only offered when a game can be replaced (hot-seat)
 }
 
-export function GamePanel({ gameState, playerColor, isConnected, roomId, onImportGame }: GamePanelProps) {
-  const whiteKingProb = getKingProbability(gameState, 'white');
-  const blackKingProb = getKingProbability(gameState, 'black');
+// Green when safe, orange when possibly in check, red when likely in check
+function checkColor(probability: number): string {
+  if (probability >= 0.5) return '#e74c3c';
+  if (probability > 0) return '#f39c12';
+  return '#27ae60';
+}
+
+// Trigger a browser download of a text file
+function downloadFile(contents: string, filename: string, type: string) {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function GamePanel({
+  gameState,
+  playerColor,
+  isConnected,
+  roomId,
+  timeControl,
+  analysis,
+  showBestMove = false,
+  onToggleBestMove,
+  onImportPGN
+}: GamePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Probability each king is attacked, across all board realities
+  const whiteCheckProb = getCheckProbability(gameState, 'white');
+  const blackCheckProb = getCheckProbability(gameState, 'black');
   const isMyTurn = gameState.currentPlayer === playerColor;
 
   const getStatusText = () => {
@@ -25,6 +65,7 @@ export function GamePanel({ gameState, playerColor, isConnected, roomId, onImpor
       case 'draw_stalemate': return '🤝 Draw - Stalemate';
       case 'draw_50_move': return '🤝 Draw - 50 Move Rule';
       case 'draw_agreement': return '🤝 Draw by Agreement';
+      case 'aborted': return '✖ Game Aborted';
       default: return isMyTurn ? '🎯 Your Turn' : '⏳ Opponent\'s Turn';
     }
   };
@@ -34,46 +75,34 @@ export function GamePanel({ gameState, playerColor, isConnected, roomId, onImpor
     const exported = {
       version: '1.0',
       exportedAt: new Date().toISOString(),
-      gameState: serializeState(gameState),
+      qfen: toQuantumFEN(gameState),
+      moveHistory: gameState.moveHistory,
       roomId
     };
 
-    const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `quantum-chess-${roomId || 'game'}-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(
+      JSON.stringify(exported, null, 2),
+      `quantum-chess-${roomId || 'game'}-${Date.now()}.json`,
+      'application/json'
+    );
   }, [gameState, roomId]);
 
-  // Import game from JSON file
-  const handleImportGame = useCallback(() => {
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.accept = '.json';
-    input.onchange = (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (!file) return;
-
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        try {
-          const imported = JSON.parse(event.target?.result as string);
-          if (imported.gameState && onImportGame) {
-            onImportGame(imported.gameState);
-          }
-        } catch (err) {
-          console.error('Failed to import game:', err);
-          alert('Invalid game file');
-        }
-      };
-      reader.readAsText(file);
-    };
-    input.click();
-  }, [onImportGame]);
+  // Export game as Quantum PGN
+  const handleExportPGN = useCallback(() => {
+    const pgn = toQuantumPGN(gameState, {
+      ...(roomId && { Site: `Quantum Chess room ${roomId}` }),
+      // PGN time controls are "seconds+increment"
+      ...(timeControl && { TimeControl: `${timeControl.minutes * 60}+${timeControl.increment}` })
+    });
+    downloadFile(pgn, `quantum-chess-${roomId || 'game'}-${Date.now()}.pgn`, 'application/x-chess-pgn');
+  }, [gameState, roomId, timeControl]);
+
+  // Read a Quantum PGN file - replaying and checking it is up to the game
+  const handleImportPGN = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Picking the same file again still fires
+    if (file) onImportPGN?.(await file.text());
+  }, [onImportPGN]);
 
   return (
     <div className="game-panel">
@@ -96,19 +125,23 @@ export function GamePanel({ gameState, playerColor, isConnected, roomId, onImpor
         <div className={`player ${playerColor === 'black' ? 'current-player' : ''}`}>
           <span className="player-icon">♚</span>
           <span className="player-name">Black</span>
-          <span className="king-probability" style={{
-            color: blackKingProb < 0.5 ? '#e74c3c' : blackKingProb < 1 ? '#f39c12' : '#27ae60'
-          }}>
-            {Math.round(blackKingProb * 100)}%
+          <span
+            className="king-probability"
+            style={{ color: checkColor(blackCheckProb) }}
+            title="Chance the black king is in check"
+          >
+            {blackCheckProb > 0 ? `⚠️ ${Math.round(blackCheckProb * 100)}%` : '✓ Safe'}
           </span>
         </div>
         <div className={`player ${playerColor === 'white' ? 'current-player' : ''}`}>
           <span className="player-icon">♔</span>
           <span className="player-name">White</span>
-          <span className="king-probability" style={{
-            color: whiteKingProb < 0.5 ? '#e74c3c' : whiteKingProb < 1 ? '#f39c12' : '#27ae60'
-          }}>
-            {Math.round(whiteKingProb * 100)}%
+          <span
+            className="king-probability"
+            style={{ color: checkColor(whiteCheckProb) }}
+            title="Chance the white king is in check"
+          >
+            {whiteCheckProb > 0 ? `⚠️ ${Math.round(whiteCheckProb * 100)}%` : '✓ Safe'}
           </span>
         </div>
       </div>
@@ -120,6 +153,19 @@ export function GamePanel({ gameState, playerColor, isConnected, roomId, onImpor
         <div className="turn-number">Turn {gameState.turnNumber}</div>
       </div>
 
+      <div className="panel-section">
+        <h3>📈 Evaluation</h3>
+        {analysis ? (
+          <EvaluationBar
+            analysis={analysis}
+            showBestMove={showBestMove}
+            onToggleBestMove={() => onToggleBestMove?.()}
+          />
+        ) : (
+          <p className="eval-status">Analysis unlocks when the game is over</p>
+        )}
+      </div>
+
       <div className="panel-section">
         <h3>📜 Move History</h3>
         <MoveList moves={gameState.moveHistory} />
@@ -142,10 +188,22 @@ export function GamePanel({ gameState, playerColor, isConnected, roomId, onImpor
           <button className="action-btn export-btn" onClick={handleExportGame}>
             📥 Export Game
           </button>
-          {onImportGame && (
-            <button className="action-btn import-btn" onClick={handleImportGame}>
-              📤 Import Game
-            </button>
+          <button className="action-btn export-btn" onClick={handleExportPGN}>
+            📜 Export PGN
+          </button>
+          {onImportPGN && (
+            <>
+              <button className="action-btn import-btn" onClick={() => fileInputRef.current?.click()}>
+                📂 Import PGN
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pgn,application/x-chess-pgn,text/plain"
+                onChange={handleImportPGN}
+                hidden
+              />
+            </>
           )}
         </div>
       </div>
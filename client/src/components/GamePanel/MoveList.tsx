@@ -1,26 +1,26 @@
-import type { MoveRecord } from '@engine/types';
-import { positionToAlgebraic } from '@engine/types';
+import type { MoveRecord } from '../../engine/ChessEngine';
 
 interface MoveListProps {
   moves: MoveRecord[];
 }
 
-function formatMove(record: MoveRecord): string {
-  const move = record.move;
-  
+function formatMove(move: MoveRecord): string {
+  const piece = move.piece.substring(1);
+
   switch (move.type) {
     case 'classical':
-      return `${move.pieceId.substring(1)}: ${positionToAlgebraic(move.from)}→${positionToAlgebraic(move.to)}${move.promotion ? `=${move.promotion[0]?.toUpperCase()}` : ''}`;
-    
+      return `${piece}: ${move.from}→${move.to}${move.promotion ? `=${move.promotion[0]?.toUpperCase()}` : ''}`;
+
     case 'split':
-      return `${move.pieceId.substring(1)}: ${positionToAlgebraic(move.from)}⟨→⟩${positionToAlgebraic(move.to1)}+${positionToAlgebraic(move.to2)}`;
-    
+      return `${piece}: ${move.from}⟨→⟩${move.to}+${move.to2}`;
+
     case 'merge':
-      return `${move.pieceId.substring(1)}: ${positionToAlgebraic(move.from1)}+${positionToAlgebraic(move.from2)}→${positionToAlgebraic(move.to)}`;
-    
+      return `${piece}: ${move.from}+${move.from2}→${move.to}`;
+
     case 'capture':
-      return `${move.pieceId.substring(1)}: ${positionToAlgebraic(move.from)}x${positionToAlgebraic(move.to)}`;
-    
+    case 'quantum_capture':
+      return `${piece}: ${move.from}x${move.to}`;
+
     default:
       return '?';
   }
@@ -58,4 +58,3 @@ export function MoveList({ moves }: MoveListProps) {
     </div>
   );
 }
-
@@ -1,3 +1,4 @@
 export { GamePanel } from './GamePanel';
 export { MoveList } from './MoveList';
 
+export { EvaluationBar } from './EvaluationBar';
@@ -1,9 +1,13 @@
-import { useState, useEffect, lazy, Suspense } from 'react';
+import { useState, useEffect, useMemo, lazy, Suspense } from 'react';
 import './Lobby.css';
 import { RulesModal } from '../RulesModal/RulesModal';
 import { QuantumTitle } from '../QuantumTitle';
 import { ParticleField } from '../ParticleField';
 import { OpenGames } from '../OpenGames';
+import { AI_LEVELS, type AILevel } from '../../engine/ai';
+import { RULESET_PRESETS, rulesForVariant, type QuantumRuleset, type RulesetVariant } from '../../engine/rulesets';
+import { STANDARD_SETUP, type StartingSetup } from '../../engine/setups';
+import { createGame } from '../../engine/ChessEngine';
 
 // Lazy load the 3D animation to reduce initial bundle size
 const QuantumAnimation = lazy(() =>
@@ -14,6 +18,7 @@ const QuantumAnimation = lazy(() =>
 export interface TimeControl {
   minutes: number;
   increment: number;
+  onDisconnect?: 'pause' | 'run'; // Clocks while a dropped opponent reconnects (online)
 }
 
 export const TIME_CONTROL_PRESETS: { label: string; value: TimeControl }[] = [
@@ -26,8 +31,15 @@ export const TIME_CONTROL_PRESETS: { label: string; value: TimeControl }[] = [
 ];
 
 interface LobbyProps {
-  onCreateRoom: (maxSuperpositions: number, isPublic: boolean, timeControl: TimeControl) => Promise<void>;
+  onCreateRoom: (rules: QuantumRuleset, isPublic: boolean, timeControl: TimeControl, setup: StartingSetup) => Promise<void>;
   onJoinRoom: (roomId: string) => Promise<void>;
+  onWatchRoom?: (roomId: string) => void; // Spectate a live game
+  onStartLocal: (
+    rules: QuantumRuleset,
+    timeControl: TimeControl,
+    ai: { level: AILevel; color: 'white' | 'black' } | null,
+    setup: StartingSetup
+  ) => void;
   onCancel?: () => void;
   roomId: string | null;
   isConnecting: boolean;
@@ -39,6 +51,8 @@ interface LobbyProps {
 export function Lobby({
   onCreateRoom,
   onJoinRoom,
+  onWatchRoom,
+  onStartLocal,
   onCancel,
   roomId,
   isConnecting,
@@ -49,9 +63,16 @@ export function Lobby({
   const [joinRoomId, setJoinRoomId] = useState('');
   const [copied, setCopied] = useState(false);
   const [maxSuperpositions, setMaxSuperpositions] = useState(2);
+  const [allowUnevenSplits, setAllowUnevenSplits] = useState(false);
+  const [variant, setVariant] = useState<RulesetVariant>('classic');
+  const [setupKind, setSetupKind] = useState<StartingSetup['kind']>('standard');
+  const [customPosition, setCustomPosition] = useState('');
   const [isPublic, setIsPublic] = useState(true);
   const [showRules, setShowRules] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [setupMode, setSetupMode] = useState<'online' | 'local' | 'ai'>('online'); // What the create modal sets up
+  const [aiLevel, setAiLevel] = useState<AILevel>('medium');
+  const [aiPlayerSide, setAiPlayerSide] = useState<'white' | 'black' | 'random'>('white'); // Side the human plays
   const [isCardHovered, setIsCardHovered] = useState(false);
   const [serverStatus, setServerStatus] = useState<'checking' | 'online' | 'offline'>('checking');
 
@@ -59,6 +80,7 @@ export function Lobby({
   const [selectedPresetIndex, setSelectedPresetIndex] = useState(2); // Default to 5+0
   const [customMinutes, setCustomMinutes] = useState(10);
   const [customIncrement, setCustomIncrement] = useState(5);
+  const [clockOnDisconnect, setClockOnDisconnect] = useState<'pause' | 'run'>('pause');
 
   const isCustomTime = selectedPresetIndex === TIME_CONTROL_PRESETS.length - 1;
   const currentTimeControl: TimeControl = isCustomTime
@@ -96,9 +118,40 @@ export function Lobby({
     };
   }, [serverUrl]);
 
+  const setup: StartingSetup = setupKind === 'custom' ? { kind: 'custom', position: customPosition.trim() }
+    : setupKind === 'chess960' ? { kind: 'chess960' } : STANDARD_SETUP;
+
+  // Try the custom position before anyone starts a game from it
+  const setupError = useMemo(() => {
+    if (setupKind !== 'custom') return null;
+    if (!customPosition.trim()) return 'Enter a FEN or QFEN';
+    try {
+      createGame(true, undefined, 0, undefined, { kind: 'custom', position: customPosition.trim() });
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Invalid position';
+    }
+  }, [setupKind, customPosition]);
+
   const handleCreateRoom = async () => {
     setShowCreateModal(false);
-    await onCreateRoom(maxSuperpositions, isPublic, currentTimeControl);
+    const rules = rulesForVariant(variant, maxSuperpositions, allowUnevenSplits);
+    if (setupMode === 'local') {
+      onStartLocal(rules, currentTimeControl, null, setup);
+      return;
+    }
+    if (setupMode === 'ai') {
+      const side = aiPlayerSide === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : aiPlayerSide;
+      const ai = { level: aiLevel, color: side === 'white' ? 'black' : 'white' } as const;
+      onStartLocal(rules, currentTimeControl, ai, setup);
+      return;
+    }
+    await onCreateRoom(rules, isPublic, { ...currentTimeControl, onDisconnect: clockOnDisconnect }, setup);
+  };
+
+  const openCreateModal = (mode: 'online' | 'local' | 'ai') => {
+    setSetupMode(mode);
+    setShowCreateModal(true);
   };
 
   const handleJoinRoom = async () => {
@@ -206,7 +259,7 @@ export function Lobby({
             <div className="lobby-actions" role="group" aria-label="Game options">
               {/* Create Game Button */}
               <button
-                onClick={() => setShowCreateModal(true)}
+                onClick={() => openCreateModal('online')}
                 disabled={isConnecting || serverStatus !== 'online'}
                 className="primary-btn create-game-btn"
                 aria-label="Create a new game"
@@ -214,6 +267,26 @@ export function Lobby({
                 🎮 Create Game
               </button>
 
+              {/* Hot-seat game - works without the server */}
+              <button
+                onClick={() => openCreateModal('local')}
+                disabled={isConnecting}
+                className="secondary-btn local-game-btn"
+                aria-label="Play both sides on this device"
+              >
+                🪑 Play on this Device
+              </button>
+
+              {/* Computer opponent - also works without the server */}
+              <button
+                onClick={() => openCreateModal('ai')}
+                disabled={isConnecting}
+                className="secondary-btn local-game-btn"
+                aria-label="Play against the computer"
+              >
+                🤖 Play vs Computer
+              </button>
+
               {/* Join with Code */}
               <div className="join-section">
                 <div className="join-form" role="search">
@@ -235,6 +308,16 @@ export function Lobby({
                   >
                     {isConnecting ? 'Joining...' : '🚀 Join'}
                   </button>
+                  {onWatchRoom && (
+                    <button
+                      onClick={() => onWatchRoom(joinRoomId.trim().toUpperCase())}
+                      disabled={isConnecting || !joinRoomId.trim() || serverStatus !== 'online'}
+                      className="secondary-btn"
+                      aria-label="Watch game in this room"
+                    >
+                      👁️ Watch
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -267,8 +350,103 @@ export function Lobby({
             <button className="modal-close" onClick={() => setShowCreateModal(false)} aria-label="Close">
               ✕
             </button>
-            <h2>⚛️ Create Game</h2>
-            <p className="modal-subtitle">Configure your quantum chess match</p>
+            <h2>{setupMode === 'local' ? '🪑 Local Game' : setupMode === 'ai' ? '🤖 Play vs Computer' : '⚛️ Create Game'}</h2>
+            <p className="modal-subtitle">
+              {setupMode === 'local' ? 'Both players share this device and take turns'
+                : setupMode === 'ai' ? 'The computer weighs every measurement outcome before it moves'
+                : 'Configure your quantum chess match'}
+            </p>
+
+            {setupMode === 'ai' && (
+              <>
+                <div className="modal-setting">
+                  <label>Difficulty</label>
+                  <div className="time-control-presets">
+                    {(Object.keys(AI_LEVELS) as AILevel[]).map(level => (
+                      <button
+                        key={level}
+                        className={`time-preset-btn ${aiLevel === level ? 'active' : ''}`}
+                        onClick={() => setAiLevel(level)}
+                      >
+                        {AI_LEVELS[level].label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="setting-hint">Higher levels look further ahead and take longer to move</p>
+                </div>
+
+                <div className="modal-setting">
+                  <label>Play As</label>
+                  <div className="visibility-toggle">
+                    {(['white', 'black', 'random'] as const).map(side => (
+                      <button
+                        key={side}
+                        className={`toggle-btn ${aiPlayerSide === side ? 'active' : ''}`}
+                        onClick={() => setAiPlayerSide(side)}
+                      >
+                        {side === 'white' ? '♔ White' : side === 'black' ? '♚ Black' : '🎲 Random'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="modal-setting">
+              <label>Rules</label>
+              <div className="time-control-presets">
+                {(Object.keys(RULESET_PRESETS) as RulesetVariant[]).map(name => (
+                  <button
+                    key={name}
+                    className={`time-preset-btn ${variant === name ? 'active' : ''}`}
+                    onClick={() => setVariant(name)}
+                  >
+                    {RULESET_PRESETS[name].label}
+                  </button>
+                ))}
+              </div>
+              <p className="setting-hint">{RULESET_PRESETS[variant].description}</p>
+            </div>
+
+            <div className="modal-setting">
+              <label>Starting Position</label>
+              <div className="visibility-toggle">
+                <button
+                  className={`toggle-btn ${setupKind === 'standard' ? 'active' : ''}`}
+                  onClick={() => setSetupKind('standard')}
+                >
+                  ♟️ Standard
+                </button>
+                <button
+                  className={`toggle-btn ${setupKind === 'chess960' ? 'active' : ''}`}
+                  onClick={() => setSetupKind('chess960')}
+                >
+                  🎲 Chess960
+                </button>
+                <button
+                  className={`toggle-btn ${setupKind === 'custom' ? 'active' : ''}`}
+                  onClick={() => setSetupKind('custom')}
+                >
+                  ✏️ Custom
+                </button>
+              </div>
+              {setupKind === 'custom' && (
+                <input
+                  type="text"
+                  className="start-position-input"
+                  value={customPosition}
+                  onChange={(e) => setCustomPosition(e.target.value)}
+                  placeholder="FEN or QFEN"
+                  aria-label="Starting position"
+                  spellCheck={false}
+                />
+              )}
+              <p className={`setting-hint ${setupError ? 'setting-error' : ''}`}>
+                {setupKind === 'chess960' ? 'Back ranks shuffled from the shared game seed - castle by moving the king onto its rook'
+                  : setupKind === 'custom' ? setupError ?? 'Both players start from this position'
+                  : 'The usual chess setup'}
+              </p>
+            </div>
 
             <div className="modal-setting">
               <label htmlFor="modal-maxSuperpositions">Max Superpositions</label>
@@ -286,6 +464,27 @@ export function Lobby({
               </div>
             </div>
 
+            <div className="modal-setting">
+              <label>Split Ratios</label>
+              <div className="visibility-toggle">
+                <button
+                  className={`toggle-btn ${!allowUnevenSplits ? 'active' : ''}`}
+                  onClick={() => setAllowUnevenSplits(false)}
+                >
+                  ⚖️ 50/50 Only
+                </button>
+                <button
+                  className={`toggle-btn ${allowUnevenSplits ? 'active' : ''}`}
+                  onClick={() => setAllowUnevenSplits(true)}
+                >
+                  🎚️ Uneven
+                </button>
+              </div>
+              <p className="setting-hint">
+                {allowUnevenSplits ? 'Splits can send 25% or 75% to the first square' : 'Every split divides the piece evenly'}
+              </p>
+            </div>
+
             <div className="modal-setting">
               <label>Time Control</label>
               <p className="setting-hint">Choose time per player + increment per move</p>
@@ -329,33 +528,62 @@ export function Lobby({
               )}
             </div>
 
-            <div className="modal-setting">
-              <label>Game Visibility</label>
-              <div className="visibility-toggle">
-                <button
-                  className={`toggle-btn ${isPublic ? 'active' : ''}`}
-                  onClick={() => setIsPublic(true)}
-                >
-                  🌐 Public
-                </button>
-                <button
-                  className={`toggle-btn ${!isPublic ? 'active' : ''}`}
-                  onClick={() => setIsPublic(false)}
-                >
-                  🔒 Private
-                </button>
+            {setupMode === 'online' && (
+              <div className="modal-setting">
+                <label>If the Connection Drops</label>
+                <div className="visibility-toggle">
+                  <button
+                    className={`toggle-btn ${clockOnDisconnect === 'pause' ? 'active' : ''}`}
+                    onClick={() => setClockOnDisconnect('pause')}
+                  >
+                    ⏸️ Pause Clocks
+                  </button>
+                  <button
+                    className={`toggle-btn ${clockOnDisconnect === 'run' ? 'active' : ''}`}
+                    onClick={() => setClockOnDisconnect('run')}
+                  >
+                    ⏱️ Keep Running
+                  </button>
+                </div>
+                <p className="setting-hint">
+                  {clockOnDisconnect === 'pause'
+                    ? 'Clocks stop while a dropped player reconnects'
+                    : 'The clock keeps running while a dropped player reconnects'}
+                </p>
               </div>
-              <p className="setting-hint">
-                {isPublic ? 'Anyone can see and join from the lobby' : 'Only people with the code can join'}
-              </p>
-            </div>
+            )}
+
+            {setupMode === 'online' && (
+              <div className="modal-setting">
+                <label>Game Visibility</label>
+                <div className="visibility-toggle">
+                  <button
+                    className={`toggle-btn ${isPublic ? 'active' : ''}`}
+                    onClick={() => setIsPublic(true)}
+                  >
+                    🌐 Public
+                  </button>
+                  <button
+                    className={`toggle-btn ${!isPublic ? 'active' : ''}`}
+                    onClick={() => setIsPublic(false)}
+                  >
+                    🔒 Private
+                  </button>
+                </div>
+                <p className="setting-hint">
+                  {isPublic ? 'Anyone can see and join from the lobby' : 'Only people with the code can join'}
+                </p>
+              </div>
+            )}
 
             <button
               onClick={handleCreateRoom}
-              disabled={isConnecting}
+              disabled={isConnecting || setupError !== null}
               className="primary-btn modal-create-btn"
             >
-              {isConnecting ? 'Creating...' : '🎮 Create Game'}
+              {setupMode === 'local' ? '🪑 Start Game'
+                : setupMode === 'ai' ? '🤖 Start Game'
+                : isConnecting ? 'Creating...' : '🎮 Create Game'}
             </button>
           </div>
         </div>
@@ -3,18 +3,18 @@
  * Like chess.com/lichess notation panel with navigation
  */
 
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import type { QuantumGameState, MoveRecord } from '../../engine/ChessEngine';
 import './MoveNotation.css';
 
 interface MoveNotationProps {
   gameState: QuantumGameState;
-  viewingMoveIndex: number | null; // null = live view, number = viewing specific move
+  viewingMoveIndex: number | null; // null = live view, number = viewing position after that move (-1 = start)
   onNavigate?: (moveIndex: number | null) => void;
   isGameOver?: boolean;
 }
 
-function formatMoveNotation(move: MoveRecord, _moveIndex: number): { notation: string; isQuantum: boolean } {
+function formatMoveNotation(move: MoveRecord): { notation: string; isQuantum: boolean } {
   // Format piece symbol (uppercase for pieces, empty for pawns)
   // Piece ID format: wK0 (white King), bN1 (black Knight), wP2 (white Pawn), etc.
   const pieceChar = move.piece.charAt(1).toUpperCase();
@@ -25,9 +25,26 @@ function formatMoveNotation(move: MoveRecord, _moveIndex: number): { notation: s
 
   // Handle different move types
   if (move.type === 'split' && move.to2) {
-    // Quantum split move: Nf3⟨g5⟩ (superposition)
+    // Quantum split move: Nf3⟨g5⟩ (superposition), odds shown when uneven
+    const odds = move.ratio !== undefined ? ` ${Math.round(move.ratio * 100)}:${Math.round((1 - move.ratio) * 100)}` : '';
     return {
-      notation: `${pieceSymbol}${from}⟨${to}|${move.to2}⟩`,
+      notation: `${pieceSymbol}${from}⟨${to}|${move.to2}⟩${odds}`,
+      isQuantum: true
+    };
+  }
+
+  if (move.type === 'merge' && move.from2) {
+    // Quantum merge move: N⟨f3|h3⟩g5 (two positions rejoin)
+    return {
+      notation: `${pieceSymbol}⟨${from}|${move.from2}⟩${to}`,
+      isQuantum: true
+    };
+  }
+
+  if (move.pathMeasurement?.blocked) {
+    // Slide measured as blocked - the piece stayed put: Ra1⊣a5
+    return {
+      notation: `${pieceSymbol}${from}⊣${to}`,
       isQuantum: true
     };
   }
@@ -50,7 +67,8 @@ function formatMoveNotation(move: MoveRecord, _moveIndex: number): { notation: s
     };
   }
 
-  // Check for castling
+  // Check for castling (Chess960 castles are recorded as the king moving onto its rook)
+  if (move.castle) return { notation: move.castle === 'kingside' ? 'O-O' : 'O-O-O', isQuantum: false };
   if (move.piece.includes('K')) {
     if (from === 'e1' && to === 'g1') return { notation: 'O-O', isQuantum: false };
     if (from === 'e1' && to === 'c1') return { notation: 'O-O-O', isQuantum: false };
@@ -69,9 +87,9 @@ function formatMoveNotation(move: MoveRecord, _moveIndex: number): { notation: s
 
 export function MoveNotation({
   gameState,
-  viewingMoveIndex: _viewingMoveIndex,
-  onNavigate: _onNavigate,
-  isGameOver: _isGameOver = false
+  viewingMoveIndex,
+  onNavigate,
+  isGameOver = false
 }: MoveNotationProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -85,13 +103,43 @@ export function MoveNotation({
     }
   }, [totalMoves]);
 
-  // Navigation state
-  const isViewingHistory = _viewingMoveIndex !== null;
-  const currentViewIndex = _viewingMoveIndex ?? totalMoves - 1;
-  // const goToStart = () => _onNavigate?.(0);
-  // const goBack = () => _onNavigate?.(Math.max(0, currentViewIndex - 1));
-  // const goForward = () => _onNavigate?.(Math.min(totalMoves - 1, currentViewIndex + 1));
-  // const goToEnd = () => _onNavigate?.(null);
+  // Navigation state (viewing the last move is the same as the live view)
+  const isViewingHistory = viewingMoveIndex !== null && viewingMoveIndex < totalMoves - 1;
+  const currentViewIndex = isViewingHistory ? viewingMoveIndex : totalMoves - 1;
+
+  const navigateTo = useCallback((moveIndex: number) => {
+    onNavigate?.(moveIndex >= totalMoves - 1 ? null : Math.max(-1, moveIndex));
+  }, [onNavigate, totalMoves]);
+
+  const goToStart = useCallback(() => navigateTo(-1), [navigateTo]);
+  const goBack = useCallback(() => navigateTo(currentViewIndex - 1), [navigateTo, currentViewIndex]);
+  const goForward = useCallback(() => navigateTo(currentViewIndex + 1), [navigateTo, currentViewIndex]);
+  const goToEnd = useCallback(() => onNavigate?.(null), [onNavigate]);
+
+  // Arrow keys step through history (ignored while typing in a field, and
+  // where the history can't be browsed, e.g. the spectator view)
+  useEffect(() => {
+    if (totalMoves === 0 || !onNavigate) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+
+      switch (e.key) {
+        case 'ArrowLeft': goBack(); break;
+        case 'ArrowRight': goForward(); break;
+        case 'ArrowUp':
+        case 'Home': goToStart(); break;
+        case 'ArrowDown':
+        case 'End': goToEnd(); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [totalMoves, onNavigate, goBack, goForward, goToStart, goToEnd]);
 
   // Group moves into pairs (white, black)
   const movePairs: Array<{
@@ -102,6 +150,12 @@ export function MoveNotation({
     black?: { notation: string; isQuantum: boolean };
   }> = [];
 
+  // A flag fall is shown as the game's result line
+  const flag = gameState.flag;
+  const flagResult = flag && (flag.matingMaterial
+    ? `⏱ ${flag.player === 'white' ? '0-1' : '1-0'} ${flag.player} lost on time`
+    : `⏱ ½-½ ${flag.player} ran out of time, no mating material`);
+
   for (let i = 0; i < moves.length; i += 2) {
     const whiteMove = moves[i];
     const blackMove = moves[i + 1];
@@ -110,8 +164,8 @@ export function MoveNotation({
       number: Math.floor(i / 2) + 1,
       whiteIndex: i,
       blackIndex: i + 1,
-      white: whiteMove ? formatMoveNotation(whiteMove, i) : undefined,
-      black: blackMove ? formatMoveNotation(blackMove, i + 1) : undefined
+      white: whiteMove ? formatMoveNotation(whiteMove) : undefined,
+      black: blackMove ? formatMoveNotation(blackMove) : undefined
     });
   }
 
@@ -132,7 +186,7 @@ export function MoveNotation({
         aria-live="polite"
         aria-atomic="false"
       >
-        {movePairs.length === 0 ? (
+        {movePairs.length === 0 && !flagResult ? (
           <div className="notation-empty" role="status">Game not started</div>
         ) : (
           <div role="list" aria-label="List of moves">
@@ -140,41 +194,45 @@ export function MoveNotation({
               <div key={pair.number} className="notation-row" role="listitem">
                 <span className="move-num" aria-hidden="true">{pair.number}.</span>
                 <span
-                  className={`white-move ${pair.white?.isQuantum ? 'quantum' : ''}`}
+                  className={`white-move ${pair.white?.isQuantum ? 'quantum' : ''} ${isViewingHistory && currentViewIndex === pair.whiteIndex ? 'viewing' : ''}`}
                   aria-label={`Move ${pair.number} white: ${pair.white?.notation || 'pending'}${pair.white?.isQuantum ? ' (quantum)' : ''}`}
+                  onClick={() => pair.white && navigateTo(pair.whiteIndex)}
                 >
                   {pair.white?.notation || '...'}
                 </span>
                 <span
-                  className={`black-move ${pair.black?.isQuantum ? 'quantum' : ''}`}
+                  className={`black-move ${pair.black?.isQuantum ? 'quantum' : ''} ${isViewingHistory && currentViewIndex === pair.blackIndex ? 'viewing' : ''}`}
                   aria-label={pair.black ? `Move ${pair.number} black: ${pair.black.notation}${pair.black.isQuantum ? ' (quantum)' : ''}` : ''}
+                  onClick={() => pair.black && navigateTo(pair.blackIndex)}
                 >
                   {pair.black?.notation || ''}
                 </span>
               </div>
             ))}
+            {flagResult && (
+              <div className="notation-result" role="listitem">{flagResult}</div>
+            )}
           </div>
         )}
       </div>
 
-      {/* Navigation controls - TODO: Implement history viewing (requires storing position snapshots)
+      {/* Navigation controls - past positions are replayed from the move history */}
       {(isGameOver || isViewingHistory || totalMoves > 0) && (
-        <div className="notation-nav">
-          <button onClick={goToStart} disabled={currentViewIndex <= 0} title="First move">
+        <div className="notation-nav" role="toolbar" aria-label="Move navigation">
+          <button onClick={goToStart} disabled={currentViewIndex < 0} title="Start position (↑)">
             ⏮
           </button>
-          <button onClick={goBack} disabled={currentViewIndex <= 0} title="Previous move">
+          <button onClick={goBack} disabled={currentViewIndex < 0} title="Previous move (←)">
             ◀
           </button>
-          <button onClick={goForward} disabled={currentViewIndex >= totalMoves - 1} title="Next move">
+          <button onClick={goForward} disabled={!isViewingHistory} title="Next move (→)">
             ▶
           </button>
-          <button onClick={goToEnd} disabled={!isViewingHistory} title="Current position">
+          <button onClick={goToEnd} disabled={!isViewingHistory} title="Current position (↓)">
             ⏭
           </button>
         </div>
       )}
-      */}
     </aside>
   );
 }
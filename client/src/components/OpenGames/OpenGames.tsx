@@ -1,9 +1,13 @@
 import { useState, useEffect } from 'react';
 import './OpenGames.css';
+import { RULESET_PRESETS, type RulesetVariant } from '../../engine/rulesets';
 
 interface OpenGame {
   room_id: string;
   max_superpositions: number;
+  allow_uneven_splits?: boolean;
+  variant?: string;
+  setup?: string;
   created_at: string;
   waiting_seconds: number;
 }
@@ -92,6 +96,11 @@ export function OpenGames({ serverUrl, onJoinGame, isConnecting, serverStatus }:
                 <span className="game-id">{game.room_id}</span>
                 <span className="game-settings">
                   ⚛️ {game.max_superpositions} superposition{game.max_superpositions !== 1 ? 's' : ''}
+                  {game.allow_uneven_splits && ' · 🎚️ uneven splits'}
+                  {game.variant && game.variant !== 'classic' && game.variant in RULESET_PRESETS &&
+                    ` · ${RULESET_PRESETS[game.variant as RulesetVariant].label}`}
+                  {game.setup === 'chess960' && ' · 🎲 Chess960'}
+                  {game.setup === 'custom' && ' · ✏️ custom start'}
                 </span>
                 <span className="waiting-time">⏱️ {formatWaitTime(game.waiting_seconds)}</span>
               </div>
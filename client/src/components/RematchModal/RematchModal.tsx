@@ -3,15 +3,26 @@ import './RematchModal.css';
 interface RematchModalProps {
   onAccept: () => void;
   onDecline: () => void;
+  // The same prompt answers the opponent's draw offers and takeback requests,
+  // and offers to resume a saved game
+  icon?: string;
+  title?: string;
+  message?: string;
 }
 
-export function RematchModal({ onAccept, onDecline }: RematchModalProps) {
+export function RematchModal({
+  onAccept,
+  onDecline,
+  icon = '🔄',
+  title = 'Rematch Request',
+  message = 'Your opponent wants a rematch!'
+}: RematchModalProps) {
   return (
     <div className="rematch-modal-overlay">
       <div className="rematch-modal">
-        <div className="rematch-icon">🔄</div>
-        <h2>Rematch Request</h2>
-        <p>Your opponent wants a rematch!</p>
+        <div className="rematch-icon">{icon}</div>
+        <h2>{title}</h2>
+        <p>{message}</p>
         <div className="rematch-actions">
           <button className="rematch-accept-btn" onClick={onAccept}>
             ✓ Accept
@@ -24,4 +35,3 @@ export function RematchModal({ onAccept, onDecline }: RematchModalProps) {
     </div>
   );
 }
-
@@ -69,11 +69,31 @@ export function RulesModal({ isOpen, onClose }: RulesModalProps) {
             <li>Select a piece, then choose <strong>two</strong> destination squares</li>
             <li>The piece enters <strong>superposition</strong> - it exists at both squares simultaneously with 50% probability each</li>
             <li>Superposition pieces are shown with colored borders and probability badges</li>
+            <li>A split piece can <strong>split again</strong> from any of its positions - only that position's probability is divided, up to 4 squares per piece</li>
             <li><strong>Kings and Pawns cannot split</strong> - only Queen, Rook, Bishop, Knight can enter superposition</li>
             <li><strong>Splits cannot capture</strong> - both destination squares must be empty</li>
           </ul>
         </section>
 
+        <section>
+          <h3>🔗 Quantum Merge Move</h3>
+          <ul>
+            <li>Click <strong>"Merge Move"</strong> to enter merge mode</li>
+            <li>Select <strong>two</strong> positions of one of your split pieces, then a destination square</li>
+            <li>The destination must be reachable from both positions and cannot hold an enemy piece</li>
+            <li>The two probabilities are added together - a 50/50 piece becomes 100% certain again, while a piece on more squares keeps its other positions</li>
+          </ul>
+        </section>
+
+        <section>
+          <h3>👣 Moving a Split Piece</h3>
+          <ul>
+            <li>A split piece moves from one of its squares <strong>without collapsing</strong> - only that position moves, the others keep their probability</li>
+            <li>A slide through a square that is only <strong>maybe</strong> occupied measures the path first: if it was blocked the piece stays put and the turn is used up</li>
+            <li>A split piece cannot move while your king is in check in any reality</li>
+          </ul>
+        </section>
+
         <section>
           <h3>🎲 Quantum Capture (Measurement)</h3>
           <ul>
@@ -84,6 +104,16 @@ export function RulesModal({ isOpen, onClose }: RulesModalProps) {
           </ul>
         </section>
 
+        <section>
+          <h3>👑 Check &amp; Checkmate in Superposition</h3>
+          <ul>
+            <li>Every possible board reality is tracked - a move is only legal if it is legal in <strong>every</strong> reality the piece is in</li>
+            <li>A king attacked by a split piece is <strong>possibly in check</strong> - the panel shows the chance it is attacked</li>
+            <li>Checkmate and stalemate only count when they hold in <strong>every</strong> reality</li>
+            <li>If you have no legal move in some realities but not others, a <strong>forced measurement</strong> decides whether your king is really in check</li>
+          </ul>
+        </section>
+
         <section>
           <h3>🔀 Collapsing Superposition</h3>
           <ul>
@@ -7,10 +7,18 @@
  * - Probability tracking: Each piece position has a probability
  * - Collapse: When capturing/measuring, superposition collapses
  * - Merge: Two positions of same piece can merge back
+ *
+ * The real game state is a weighted set of BRANCHES - every classical board
+ * reality that is still possible. Each branch holds its own chess.js board,
+ * so move legality, check and probabilities are derived from all branches
+ * instead of from a single shadow board.
  */
 
-import { Chess } from 'chess.js';
-import type { Square, Move as ChessMove, PieceSymbol } from 'chess.js';
+import { Chess, validateFen } from 'chess.js';
+import type { Square, Move as ChessMove, PieceSymbol, Color } from 'chess.js';
+import { mulberry32, deriveMoveSeed, type RandomSource, type RngFactory } from './rng';
+import { DEFAULT_RULESET, type QuantumRuleset } from './rulesets';
+import { STANDARD_SETUP, startingQFEN, type StartingSetup } from './setups';
 
 export type Player = 'white' | 'black';
 export type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn';
@@ -40,12 +48,28 @@ export interface QuantumGameState {
   gameStatus: GameStatus;
   moveHistory: MoveRecord[];
   quantumMode: boolean; // Toggle quantum mechanics on/off
-  maxSuperpositions: number; // Max pieces per player in superposition (1-5)
+  rules: QuantumRuleset; // Room rules: superposition limit, split and measurement variants
+  setup: StartingSetup; // Starting position - standard, Chess960 or custom
+  gameSeed: number; // Shared room seed - every move's RNG seed derives from it
+  rng: RngFactory; // Pluggable RNG used for measurements
   lastCollapseResult?: CollapseResult; // For animation
-  chess: Chess;
+  branches: BoardBranch[]; // Every possible board reality (source of truth)
+  chess: Chess; // Most likely branch - for display only, never for rules
   // Game result for resign/draw
   result?: 'white_wins' | 'black_wins' | 'draw';
-  resultReason?: 'checkmate' | 'stalemate' | 'resignation' | 'timeout' | 'agreement' | 'repetition' | 'insufficient_material' | '50_move';
+  resultReason?: 'checkmate' | 'stalemate' | 'resignation' | 'timeout' | 'agreement' | 'repetition' | 'insufficient_material' | '50_move' | 'protocol_violation';
+  flag?: FlagFall; // A clock ran out - ended the game (possibly before any move)
+}
+
+/**
+ * One possible classical reality of the board.
+ * Branch weights always sum to 1 across a game state.
+ */
+export interface BoardBranch {
+  chess: Chess;
+  placement: Record<string, Square>; // Piece ID -> square in this reality
+  weight: number;
+  castlingRooks?: string[]; // Chess960: IDs of rooks that may still castle (chess.js only knows a/h rooks)
 }
 
 export type GameStatus =
@@ -56,17 +80,25 @@ export type GameStatus =
   | 'draw_50_move'
   | 'draw_agreement'
   | 'draw_repetition'
-  | 'draw_insufficient';
+  | 'draw_insufficient'
+  | 'aborted'; // Ended before both players moved - no result
 
 export interface MoveRecord {
   from: string;
+  from2?: string; // For merge moves
   to: string;
   to2?: string; // For split moves
+  ratio?: number; // Uneven split: share of the probability that went to 'to'
   piece: string;
   type: 'classical' | 'split' | 'merge' | 'capture' | 'quantum_capture';
   captured?: string;
   promotion?: PieceType;
+  castle?: 'kingside' | 'queenside';
   collapseResult?: CollapseResult;
+  pathMeasurement?: PathMeasurement; // Slide through (or, with exclusion, onto) a maybe-occupied square, measured first
+  attackMeasurement?: CollapseResult; // Observer rules: superposed enemy the moved piece attacks
+  checkMeasurement?: CheckMeasurement; // Forced measurement after this move
+  seed: number; // RNG seed used for this move's measurements (for replays)
 }
 
 export interface CollapseResult {
@@ -76,20 +108,39 @@ export interface CollapseResult {
   wasCapture: boolean;
 }
 
+// A slide whose path is blocked in some realities: where the blocker was found
+export interface PathMeasurement extends CollapseResult {
+  blocked: boolean; // Blocked - the piece stayed on 'from'
+}
+
+export interface CheckMeasurement {
+  player: Player; // Whose king was measured
+  inCheck: boolean;
+  probability: number; // Probability of the observed outcome
+}
+
+export interface FlagFall {
+  player: Player; // Whose clock ran out
+  matingMaterial: boolean; // Could the opponent still mate? If not, it is a draw
+  probability: number; // Probability of that (measured when the material was superposed)
+  seed: number; // RNG seed for the material measurement
+}
+
 export interface QuantumMove {
-  type: 'classical' | 'split';
+  type: 'classical' | 'split' | 'merge';
   from: Square;
+  from2?: Square; // For merge moves
   to: Square;
   to2?: Square; // For split moves
+  ratio?: number; // Split share going to 'to' (default 0.5)
   promotion?: PieceSymbol;
 }
 
-// Seeded random for deterministic collapse (for P2P sync)
-let rngSeed = Date.now();
-export function setRngSeed(seed: number) { rngSeed = seed; }
-function seededRandom(): number {
-  rngSeed = (rngSeed * 1103515245 + 12345) & 0x7fffffff;
-  return rngSeed / 0x7fffffff;
+// Random source for one move: an explicit seed wins, otherwise derive it
+// from the game seed and the move index so both peers roll the same
+function createMoveRng(state: QuantumGameState, seed?: number): { seed: number; random: RandomSource } {
+  const moveSeed = seed ?? deriveMoveSeed(state.gameSeed, state.moveHistory.length);
+  return { seed: moveSeed, random: state.rng(moveSeed) };
 }
 
 // Convert position to chess.js square notation
@@ -114,12 +165,457 @@ function chessPieceToType(piece: PieceSymbol): PieceType {
   return map[piece];
 }
 
+// Probabilities below this are treated as zero
+const EPSILON = 1e-9;
+
+// Most squares one piece can be spread over - every split multiplies the branch count
+export const MAX_PIECE_POSITIONS = 4;
+
+function sumWeights(branches: BoardBranch[]): number {
+  return branches.reduce((total, b) => total + b.weight, 0);
+}
+
+// Find the ID of the piece standing on a square in one branch
+function pieceIdAt(branch: BoardBranch, square: Square): string | undefined {
+  for (const id in branch.placement) {
+    if (branch.placement[id] === square) return id;
+  }
+  return undefined;
+}
+
+// Squares strictly between two squares on one line (none for a knight jump)
+function squaresBetween(from: Square, to: Square): Square[] {
+  const a = squareToPos(from);
+  const b = squareToPos(to);
+  const fileDist = Math.abs(b.file - a.file);
+  const rankDist = Math.abs(b.rank - a.rank);
+  if (fileDist !== 0 && rankDist !== 0 && fileDist !== rankDist) return [];
+
+  const df = Math.sign(b.file - a.file);
+  const dr = Math.sign(b.rank - a.rank);
+  const squares: Square[] = [];
+  for (let file = a.file + df, rank = a.rank + dr; file !== b.file || rank !== b.rank; file += df, rank += dr) {
+    squares.push(posToSquare({ file, rank }));
+  }
+  return squares;
+}
+
 /**
- * Create initial game state
+ * Piece standing in the way of a move in one branch: on the path of a
+ * slide or - with the exclusion rule - an own piece on the target square.
+ * The moving piece never blocks itself.
  */
-export function createGame(quantumMode: boolean = true, maxSuperpositions: number = 2): QuantumGameState {
-  const chess = new Chess();
+function moveBlocker(
+  state: QuantumGameState,
+  branch: BoardBranch,
+  piece: QuantumPiece,
+  from: Square,
+  to: Square
+): string | undefined {
+  const path = piece.type === 'king' ? [] : squaresBetween(from, to);
+  for (const square of path) {
+    const id = pieceIdAt(branch, square);
+    if (id && id !== piece.id) return id;
+  }
+  if (state.rules.exclusion) {
+    const id = pieceIdAt(branch, to);
+    const isCastle = piece.type === 'king' && branch.castlingRooks?.includes(id ?? '');
+    if (id && id !== piece.id && !isCastle && state.pieces.get(id)?.owner === piece.owner) return id;
+  }
+  return undefined;
+}
+
+// Rescale branch weights so they sum to 1 again (after a measurement)
+function normalizeBranches(branches: BoardBranch[]): BoardBranch[] {
+  const total = sumWeights(branches);
+  return branches
+    .filter(b => b.weight / total > EPSILON)
+    .map(b => ({ ...b, weight: b.weight / total }));
+}
+
+// Combine branches that describe the same board (keeps the branch count small)
+function mergeBranches(branches: BoardBranch[]): BoardBranch[] {
+  const merged = new Map<string, BoardBranch>();
+  for (const branch of branches) {
+    const placementKey = Object.keys(branch.placement)
+      .sort()
+      .map(id => `${id}:${branch.placement[id]}`)
+      .join(',');
+    const key = `${branch.chess.fen()}|${placementKey}|${branch.castlingRooks?.join(',') ?? ''}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.weight += branch.weight;
+    } else {
+      merged.set(key, { ...branch });
+    }
+  }
+  return Array.from(merged.values());
+}
+
+function mostLikelyBranch(branches: BoardBranch[]): BoardBranch {
+  return branches.reduce((best, b) => (b.weight > best.weight + EPSILON ? b : best), branches[0]!);
+}
+
+/**
+ * Derive the per-piece view (positions + probabilities) from the branches.
+ * Keeps the piece order of the previous map so both peers stay in sync.
+ */
+function derivePieces(branches: BoardBranch[], previous: Map<string, QuantumPiece>): Map<string, QuantumPiece> {
+  const pieces = new Map<string, QuantumPiece>();
+
+  for (const [id, piece] of previous) {
+    const squares = new Map<Square, number>();
+    let typeWeight = 0;
+    let type = piece.type;
+
+    for (const branch of branches) {
+      const square = branch.placement[id];
+      if (!square) continue;
+      squares.set(square, (squares.get(square) ?? 0) + branch.weight);
+
+      // Type comes from the heaviest branch (promotion may differ per branch)
+      const boardPiece = branch.chess.get(square);
+      if (boardPiece && branch.weight > typeWeight) {
+        typeWeight = branch.weight;
+        type = chessPieceToType(boardPiece.type);
+      }
+    }
+
+    if (squares.size === 0) continue; // Captured in every branch
+
+    const positions: QuantumPosition[] = Array.from(squares.entries()).map(([square, probability]) => ({
+      position: squareToPos(square),
+      probability
+    }));
+
+    pieces.set(id, {
+      ...piece,
+      type,
+      positions,
+      isInSuperposition: positions.length > 1
+    });
+  }
+
+  return pieces;
+}
+
+/**
+ * Apply a chess move inside one branch, keeping piece IDs in step with the board.
+ * Returns null when the move is illegal in that branch.
+ */
+function applyMoveToBranch(
+  branch: BoardBranch,
+  from: Square,
+  to: Square,
+  promotion?: PieceSymbol
+): { branch: BoardBranch; move: ChessMove } | null {
+  // Chess960: a king moving onto its own castling rook castles
+  const targetId = pieceIdAt(branch, to);
+  const mover = branch.chess.get(from);
+  if (targetId && branch.castlingRooks?.includes(targetId) && mover?.type === 'k' && branch.chess.get(to)?.color === mover.color) {
+    return castleInBranch(branch, from, to);
+  }
+
+  const chess = new Chess(branch.chess.fen());
+  let move: ChessMove;
+  try {
+    move = chess.move({ from, to, promotion });
+  } catch {
+    return null;
+  }
+
+  const placement = { ...branch.placement };
+  const moverId = pieceIdAt(branch, from);
+  let capturedId: string | undefined;
+
+  // For en passant, the captured pawn is NOT at 'to' - it's on the same rank as 'from'
+  if (move.captured) {
+    const capturedSquare = move.flags.includes('e') ? `${to[0]}${from[1]}` as Square : to;
+    capturedId = pieceIdAt(branch, capturedSquare);
+    if (capturedId) delete placement[capturedId];
+  }
+
+  if (moverId) placement[moverId] = to;
+
+  // Handle castling - also move the rook!
+  // chess.js flags: 'k' = kingside castle, 'q' = queenside castle
+  if (move.flags.includes('k') || move.flags.includes('q')) {
+    const isKingside = move.flags.includes('k');
+    const rookFrom = `${isKingside ? 'h' : 'a'}${from[1]}` as Square;
+    const rookTo = `${isKingside ? 'f' : 'd'}${from[1]}` as Square;
+    const rookId = pieceIdAt(branch, rookFrom);
+    if (rookId) placement[rookId] = rookTo;
+  }
+
+  // Chess960: a king move, or a rook moving or being taken, loses those castling rights
+  const castlingRooks = branch.castlingRooks?.filter(id =>
+    id !== moverId && id !== capturedId && !(move.piece === 'k' && id[0] === move.color)
+  );
+
+  return { branch: { chess, placement, weight: branch.weight, ...(castlingRooks && { castlingRooks }) }, move };
+}
+
+/**
+ * Chess960 castling in one branch: the king moves onto its own castling
+ * rook and the two land on the usual castled squares (g+f or c+d).
+ * Returns null unless that is legal there - every square they cross is
+ * empty and the king is not in check, passing or landing on an attacked square.
+ */
+function castleInBranch(
+  branch: BoardBranch,
+  from: Square,
+  rookSquare: Square
+): { branch: BoardBranch; move: ChessMove } | null {
+  const kingId = pieceIdAt(branch, from);
+  const rookId = pieceIdAt(branch, rookSquare);
+  const king = branch.chess.get(from);
+  const rook = branch.chess.get(rookSquare);
+  if (!kingId || !rookId || !branch.castlingRooks?.includes(rookId)) return null;
+  if (king?.type !== 'k' || king.color !== branch.chess.turn() || rook?.type !== 'r' || rook.color !== king.color) return null;
+  if (rookSquare[1] !== from[1] || branch.chess.inCheck()) return null;
+
+  const rank = from[1];
+  const kingside = rookSquare[0]! > from[0]!;
+  const kingTo = `${kingside ? 'g' : 'c'}${rank}` as Square;
+  const rookTo = `${kingside ? 'f' : 'd'}${rank}` as Square;
+
+  const files = [from, rookSquare, kingTo, rookTo].map(sq => squareToPos(sq).file);
+  for (let file = Math.min(...files); file <= Math.max(...files); file++) {
+    const square = posToSquare({ file, rank: Number(rank) - 1 });
+    if (square !== from && square !== rookSquare && branch.chess.get(square)) return null;
+  }
+  const enemy = king.color === 'w' ? 'b' : 'w';
+  if ([...squaresBetween(from, kingTo), kingTo].some(square => branch.chess.isAttacked(square, enemy))) return null;
+
+  const board = new Chess(branch.chess.fen(), { skipValidation: true });
+  board.remove(from);
+  board.remove(rookSquare);
+  board.put(king, kingTo);
+  board.put(rook, rookTo);
+  const chess = new Chess(passTurnFen(board.fen()));
+  // The castling rook no longer shields the king's new square
+  if (isKingAttacked(chess, king.color)) return null;
+
+  const move = {
+    color: king.color,
+    from,
+    to: rookSquare,
+    piece: 'k',
+    flags: kingside ? 'k' : 'q',
+    san: kingside ? 'O-O' : 'O-O-O',
+    lan: `${from}${rookSquare}`,
+    before: branch.chess.fen(),
+    after: chess.fen()
+  } as ChessMove;
+
+  return {
+    branch: {
+      chess,
+      placement: { ...branch.placement, [kingId]: kingTo, [rookId]: rookTo },
+      weight: branch.weight,
+      castlingRooks: branch.castlingRooks.filter(id => id[0] !== king.color)
+    },
+    move
+  };
+}
+
+// Chess960 castling moves for the king on 'from' in one branch
+function castlingMoves(branch: BoardBranch, from: Square): ChessMove[] {
+  if (!branch.castlingRooks) return [];
+  return branch.castlingRooks
+    .map(id => branch.placement[id])
+    .flatMap(square => (square ? [castleInBranch(branch, from, square)?.move] : []))
+    .filter(move => move !== undefined);
+}
+
+// FEN with the turn passed to the other side (no en passant square)
+function passTurnFen(fen: string): string {
+  const [board, turn, castling, , halfmove, fullmove] = fen.split(' ');
+  const nextFullmove = turn === 'b' ? Number(fullmove) + 1 : Number(fullmove);
+  return `${board} ${turn === 'w' ? 'b' : 'w'} ${castling} - ${Number(halfmove) + 1} ${nextFullmove}`;
+}
+
+/**
+ * The mover's turn passes in a branch where the moved piece stands elsewhere.
+ * Returns null when the mover is in check there - passing would leave the
+ * king attacked in that reality.
+ */
+function passTurnInBranch(branch: BoardBranch): BoardBranch | null {
+  if (branch.chess.inCheck()) return null;
+  return { ...branch, chess: new Chess(passTurnFen(branch.chess.fen())), placement: { ...branch.placement } };
+}
+
+// Status of a single classical board after 'mover' has moved
+function branchStatus(chess: Chess, mover: Player): GameStatus {
+  if (chess.isCheckmate()) return mover === 'white' ? 'white_wins' : 'black_wins';
+  if (chess.isStalemate()) return 'draw_stalemate';
+  if (chess.isDraw()) {
+    if (chess.isThreefoldRepetition()) return 'draw_repetition';
+    if (chess.isInsufficientMaterial()) return 'draw_insufficient';
+    return 'draw_50_move';
+  }
+  return 'active';
+}
+
+/**
+ * Game status across all branches: the game only ends when every
+ * reality agrees it has ended.
+ */
+function evaluateGameStatus(branches: BoardBranch[], mover: Player): GameStatus {
+  const statuses = branches.map(b => branchStatus(b.chess, mover));
+  if (statuses.every(s => s === statuses[0])) return statuses[0]!;
+  if (statuses.every(s => s.startsWith('draw'))) {
+    return branchStatus(mostLikelyBranch(branches).chess, mover);
+  }
+  return 'active';
+}
+
+// Is this color's king attacked on a classical board?
+function isKingAttacked(chess: Chess, color: Color): boolean {
+  const [kingSquare] = chess.findPiece({ type: 'k', color });
+  if (!kingSquare) return false;
+  return chess.isAttacked(kingSquare, color === 'w' ? 'b' : 'w');
+}
+
+// Pick one branch at random, weighted by probability
+function pickBranch(branches: BoardBranch[], roll: number): BoardBranch {
+  let cumulative = 0;
+  for (const branch of branches) {
+    cumulative += branch.weight;
+    if (roll < cumulative) return branch;
+  }
+  return branches[branches.length - 1]!;
+}
+
+/**
+ * Observer rules: after 'mover' has moved, find the first enemy piece it
+ * attacks on a square the enemy only maybe stands on, and MEASURE whether
+ * it is there. Branches come back unchanged when there is nothing to measure.
+ */
+function measureAttackedPiece(
+  state: QuantumGameState,
+  branches: BoardBranch[],
+  mover: QuantumPiece,
+  random: RandomSource
+): { branches: BoardBranch[]; measurement?: CollapseResult } {
+  const color = mover.owner === 'white' ? 'w' : 'b';
+  const total = sumWeights(branches);
+
+  for (const [id, piece] of state.pieces) {
+    if (piece.owner === mover.owner) continue;
+
+    const squares = new Set(branches.map(b => b.placement[id]).filter(sq => sq !== undefined));
+    for (const square of squares) {
+      const present = branches.filter(b => b.placement[id] === square);
+      const probability = sumWeights(present) / total;
+      if (probability > 1 - EPSILON) continue;
+
+      const attacked = branches.some(b => {
+        const moverSquare = b.placement[mover.id];
+        return moverSquare !== undefined && b.chess.attackers(square, color).includes(moverSquare);
+      });
+      if (!attacked) continue;
+
+      if (random.next() < probability) {
+        return {
+          branches: normalizeBranches(present),
+          measurement: { pieceId: id, collapsedTo: square, probability, wasCapture: false }
+        };
+      }
+      // Not there - it is found on its likeliest other square (or was captured)
+      const absent = normalizeBranches(branches.filter(b => b.placement[id] !== square));
+      const escapeSquare = mostLikelyBranch(absent).placement[id];
+      return {
+        branches: absent,
+        measurement: {
+          pieceId: id,
+          collapsedTo: escapeSquare ?? square,
+          probability: sumWeights(absent.filter(b => b.placement[id] === escapeSquare)) * (1 - probability),
+          wasCapture: false
+        }
+      };
+    }
+  }
+
+  return { branches };
+}
+
+/**
+ * Build the state that follows a move from the branches it produced.
+ *
+ * If the next player has no legal move in any reality but the branches
+ * disagree about the result (e.g. mated in some, not in others), a FORCED
+ * MEASUREMENT decides: the check is measured first, and if that still
+ * leaves the game undecided the whole board collapses to one branch.
+ */
+function advanceState(
+  state: QuantumGameState,
+  branches: BoardBranch[],
+  record: MoveRecord,
+  random: RandomSource
+): QuantumGameState {
+  const build = (next: BoardBranch[], nextRecord: MoveRecord): QuantumGameState => {
+    const merged = mergeBranches(next);
+    return {
+      pieces: derivePieces(merged, state.pieces),
+      currentPlayer: state.currentPlayer === 'white' ? 'black' : 'white',
+      turnNumber: state.turnNumber + 1,
+      gameStatus: evaluateGameStatus(merged, state.currentPlayer),
+      moveHistory: [...state.moveHistory, nextRecord],
+      quantumMode: state.quantumMode,
+      rules: state.rules,
+      setup: state.setup,
+      gameSeed: state.gameSeed,
+      rng: state.rng,
+      lastCollapseResult: nextRecord.collapseResult,
+      branches: merged,
+      chess: mostLikelyBranch(merged).chess
+    };
+  };
+
+  let newState = build(branches, record);
+  if (newState.gameStatus !== 'active' || getLegalMoves(newState).length > 0) {
+    return newState;
+  }
+
+  // Forced measurement: is the stuck player's king really in check?
+  const defender = newState.currentPlayer;
+  const checkProbability = getCheckProbability(newState, defender);
+  if (checkProbability > EPSILON && checkProbability < 1 - EPSILON) {
+    const inCheck = random.next() < checkProbability;
+    const color = defender === 'white' ? 'w' : 'b';
+    const measured = normalizeBranches(
+      newState.branches.filter(b => isKingAttacked(b.chess, color) === inCheck)
+    );
+    newState = build(measured, {
+      ...record,
+      checkMeasurement: {
+        player: defender,
+        inCheck,
+        probability: inCheck ? checkProbability : 1 - checkProbability
+      }
+    });
+  }
+
+  // Still undecided - collapse the whole board to a single reality
+  if (newState.gameStatus === 'active' && getLegalMoves(newState).length === 0) {
+    const branch = pickBranch(newState.branches, random.next());
+    newState = build([{ ...branch, weight: 1 }], newState.moveHistory[newState.moveHistory.length - 1]!);
+  }
+
+  return newState;
+}
+
+/**
+ * Give every piece on a classical board an ID (wK0, bN1, ...), scanning
+ * from a1 to h8. IDs in 'taken' are already used and get skipped.
+ */
+function assignPieceIds(
+  chess: Chess,
+  taken: Set<string> = new Set()
+): { pieces: Map<string, QuantumPiece>; placement: Record<string, Square> } {
   const pieces = new Map<string, QuantumPiece>();
+  const placement: Record<string, Square> = {};
 
   // Extract pieces from chess.js board
   const board = chess.board();
@@ -136,7 +632,8 @@ export function createGame(quantumMode: boolean = true, maxSuperpositions: numbe
         const pieceChar = type === 'knight' ? 'N' : type[0].toUpperCase();
         const key = `${prefix}${pieceChar}`;
         pieceCount[key] = (pieceCount[key] || 0);
-        const id = `${key}${pieceCount[key]++}`;
+        let id = `${key}${pieceCount[key]++}`;
+        while (taken.has(id)) id = `${key}${pieceCount[key]++}`;
 
         pieces.set(id, {
           id,
@@ -145,10 +642,34 @@ export function createGame(quantumMode: boolean = true, maxSuperpositions: numbe
           positions: [{ position: { file, rank }, probability: 1.0 }],
           isInSuperposition: false
         });
+        placement[id] = posToSquare({ file, rank });
       }
     }
   }
 
+  return { pieces, placement };
+}
+
+/**
+ * Create initial game state. Chess960 and custom setups start from their
+ * QFEN (see startingQFEN), so both peers build the same board from the
+ * setup and the shared seed.
+ */
+export function createGame(
+  quantumMode: boolean = true,
+  rules: QuantumRuleset = DEFAULT_RULESET,
+  gameSeed: number = 0,
+  rng: RngFactory = mulberry32,
+  setup: StartingSetup = STANDARD_SETUP
+): QuantumGameState {
+  const start = startingQFEN(setup, gameSeed);
+  if (start) {
+    return { ...fromQuantumFEN(start, quantumMode, rules, gameSeed, rng), setup };
+  }
+
+  const chess = new Chess();
+  const { pieces, placement } = assignPieceIds(chess);
+
   return {
     pieces,
     currentPlayer: 'white',
@@ -156,7 +677,11 @@ export function createGame(quantumMode: boolean = true, maxSuperpositions: numbe
     gameStatus: 'active',
     moveHistory: [],
     quantumMode,
-    maxSuperpositions,
+    rules,
+    setup,
+    gameSeed,
+    rng,
+    branches: [{ chess, placement, weight: 1 }],
     chess
   };
 }
@@ -212,312 +737,233 @@ export function getSuperpositionPieces(state: QuantumGameState): Array<{
  * Get all legal moves for current player
  */
 export function getLegalMoves(state: QuantumGameState): ChessMove[] {
-  return state.chess.moves({ verbose: true });
+  const moves: ChessMove[] = [];
+  for (const [, piece] of state.pieces) {
+    if (piece.owner !== state.currentPlayer) continue;
+    for (const qPos of piece.positions) {
+      moves.push(...getLegalMovesFromSquare(state, posToSquare(qPos.position)));
+    }
+  }
+  return moves;
 }
 
 /**
  * Get legal moves for a piece at a specific square, handling quantum positions.
- * If the piece is in superposition and at a position chess.js doesn't know about,
- * we temporarily place the piece there to compute valid moves.
+ * A move is legal only if it is legal in EVERY branch where the piece
+ * actually stands on that square - except that a slide may be blocked in
+ * some of them (or, with the exclusion rule, the target held by an own
+ * piece), which makeMove settles by measuring the path.
+ * Where the piece stands elsewhere the turn just passes, so a superposed
+ * piece cannot move while its king is in check in any reality.
  */
 export function getLegalMovesFromSquare(state: QuantumGameState, square: Square): ChessMove[] {
   const piece = findPieceAtSquare(state, square);
+  if (!piece || piece.owner !== state.currentPlayer) return [];
 
-  // First try getting moves directly from chess.js
-  const directMoves = state.chess.moves({ square, verbose: true });
-  if (directMoves.length > 0) {
-    return directMoves;
-  }
-
-  // If no moves and piece is in superposition, compute moves from this position
-  if (piece && piece.isInSuperposition) {
-    // Find where chess.js currently has this piece
-    let chessSquare: Square | null = null;
-    for (const qPos of piece.positions) {
-      const sq = posToSquare(qPos.position);
-      const pieceAtSq = state.chess.get(sq);
-      if (pieceAtSq &&
-        pieceAtSq.color === (piece.owner === 'white' ? 'w' : 'b') &&
-        chessPieceToType(pieceAtSq.type) === piece.type) {
-        chessSquare = sq;
-        break;
-      }
-    }
+  const activeBranches = state.branches.filter(b => b.placement[piece.id] === square);
+  if (activeBranches.length === 0) return [];
+  if (state.branches.some(b => b.placement[piece.id] !== square && b.chess.inCheck())) return [];
 
-    if (chessSquare && chessSquare !== square) {
-      // Temporarily move the piece to compute legal moves from 'square'
-      const tempChess = new Chess(state.chess.fen());
-      const pieceColor = piece.owner === 'white' ? 'w' : 'b';
-      const pieceTypeChar = (piece.type === 'knight' ? 'n' : piece.type[0]) as PieceSymbol;
+  const moveKey = (m: ChessMove) => `${m.to}${m.promotion ?? ''}`;
+  const branchMoves = activeBranches.map(b => [...b.chess.moves({ square, verbose: true }), ...castlingMoves(b, square)]);
+  const branchKeys = branchMoves.map(moves => new Set(moves.map(moveKey)));
 
-      // Remove from chess.js position and place at clicked position
-      tempChess.remove(chessSquare);
-      tempChess.put({ type: pieceTypeChar, color: pieceColor }, square);
-
-      // Get moves from the temporary position
-      return tempChess.moves({ square, verbose: true });
+  // Every move legal somewhere, in the order the first branches list them
+  const candidates = new Map<string, ChessMove>();
+  for (const moves of branchMoves) {
+    for (const m of moves) {
+      if (!candidates.has(moveKey(m))) candidates.set(moveKey(m), m);
     }
   }
 
-  return [];
+  return Array.from(candidates.values()).filter(m => activeBranches.every((branch, i) =>
+    branchKeys[i]!.has(moveKey(m)) ||
+    (!branch.chess.inCheck() && moveBlocker(state, branch, piece, square, m.to) !== undefined)
+  ));
+}
+
+/**
+ * Moves a piece on 'square' can split along. A split forks every reality
+ * where the piece stands there, so it can't measure a partly blocked path
+ * first: each target must be a legal move in all of those branches.
+ */
+export function getSplitMovesFromSquare(state: QuantumGameState, square: Square): ChessMove[] {
+  const piece = findPieceAtSquare(state, square);
+  if (!piece) return [];
+  const branchTargets = state.branches
+    .filter(b => b.placement[piece.id] === square)
+    .map(b => new Set([...b.chess.moves({ square, verbose: true }), ...castlingMoves(b, square)].map(m => m.to)));
+  return getLegalMovesFromSquare(state, square).filter(m => branchTargets.every(targets => targets.has(m.to)));
 }
 
 /**
  * Check if a move is legal
  */
 export function isLegalMove(state: QuantumGameState, from: Square, to: Square): boolean {
-  const moves = state.chess.moves({ square: from, verbose: true });
-  return moves.some(m => m.to === to);
+  return getLegalMovesFromSquare(state, from).some(m => m.to === to);
 }
 
 /**
- * Make a classical move (handles quantum captures with collapse)
+ * Make a classical move (handles quantum captures with collapse).
+ * A superposed piece moves only in the realities where it stands on 'from';
+ * a slide that is blocked in some of them measures the path first.
  */
 export function makeMove(
   state: QuantumGameState,
   from: Square,
   to: Square,
   promotion?: PieceSymbol,
-  collapseSeed?: number
+  seed?: number
 ): { success: boolean; newState: QuantumGameState; error?: string; collapseResult?: CollapseResult } {
   try {
-    // Check if moving piece is in superposition at a different position than chess.js knows
     const movingPiece = findPieceAtSquare(state, from);
-    const fromPos = squareToPos(from);
-
-    // Clone the chess state
-    let newChess = new Chess(state.chess.fen());
-
-    // If the piece is in superposition, chess.js might not know about this position
-    // We need to check if chess.js has a piece at 'from', and if not, temporarily add one
-    const chessHasPieceAtFrom = newChess.get(from) !== null;
-
-    if (!chessHasPieceAtFrom && movingPiece && movingPiece.isInSuperposition) {
-      // The piece is at a quantum position that chess.js doesn't know about
-      // We need to validate this move by temporarily placing the piece there
-
-      // Find where chess.js thinks this piece is (the first split position)
-      const chessPosition = movingPiece.positions.find(p => {
-        const sq = posToSquare(p.position);
-        const pieceAtSq = newChess.get(sq);
-        if (!pieceAtSq) return false;
-        return pieceAtSq.color === (movingPiece.owner === 'white' ? 'w' : 'b') &&
-          chessPieceToType(pieceAtSq.type) === movingPiece.type;
-      });
-
-      if (chessPosition) {
-        // Move from the chess.js known position to 'from', then to 'to'
-        // Actually, we need to rebuild the board with the piece at 'from'
-        const fen = newChess.fen();
-        const fenParts = fen.split(' ');
-
-        // Get piece notation
-        const pieceColor = movingPiece.owner === 'white' ? 'w' : 'b';
-        const pieceTypeChar = movingPiece.type === 'knight' ? 'n' : movingPiece.type[0];
-        const pieceNotation = pieceColor === 'w' ? pieceTypeChar.toUpperCase() : pieceTypeChar.toLowerCase();
-
-        // Remove piece from original position and place at 'from'
-        const chessSquare = posToSquare(chessPosition.position);
-        newChess.remove(chessSquare);
-        newChess.put({ type: pieceTypeChar as PieceSymbol, color: pieceColor }, from);
-      }
+    if (!movingPiece || movingPiece.owner !== state.currentPlayer) {
+      return { success: false, newState: state, error: 'No valid piece at source' };
     }
 
-    const move = newChess.move({ from, to, promotion });
-
-    if (!move) {
+    const legalMove = getLegalMovesFromSquare(state, from).find(m => m.to === to);
+    if (!legalMove) {
       return { success: false, newState: state, error: 'Invalid move' };
     }
 
-    // Update quantum pieces
-    const newPieces = new Map(state.pieces);
-
-    // Find the piece that moved (fromPos already calculated above)
-    const toPos = squareToPos(to);
-    let collapseResult: CollapseResult | undefined;
-
-    let movedPiece: QuantumPiece | undefined;
-    for (const [, piece] of newPieces) {
-      const atFrom = piece.positions.find(
-        p => p.position.file === fromPos.file && p.position.rank === fromPos.rank
-      );
-      if (atFrom && piece.owner === state.currentPlayer) {
-        movedPiece = {
-          ...piece,
-          positions: [...piece.positions],
-          isInSuperposition: false // Moving collapses the piece if it was in superposition
+    const { seed: moveSeed, random } = createMoveRng(state, seed);
+    let branches = state.branches;
+
+    // A slide through a square that is only occupied in some realities:
+    // MEASURE the path first. If it is blocked the piece stays put.
+    // Only realities with the piece on 'from' say anything about its path;
+    // the others keep their weight whatever the outcome.
+    const isBlocked = (b: BoardBranch) => moveBlocker(state, b, movingPiece, from, to) !== undefined;
+    const here = branches.filter(b => b.placement[movingPiece.id] === from);
+    const elsewhere = branches.filter(b => b.placement[movingPiece.id] !== from);
+    const blockedHere = here.filter(isBlocked);
+    let pathMeasurement: PathMeasurement | undefined;
+
+    if (blockedHere.length > 0) {
+      const clearHere = here.filter(b => !isBlocked(b));
+      const hereWeight = sumWeights(here);
+      const probability = sumWeights(clearHere) / hereWeight;
+      const blockerId = moveBlocker(state, mostLikelyBranch(blockedHere), movingPiece, from, to)!;
+      // The measured outcome takes over the weight of all realities with the piece on 'from'
+      const withOutcome = (outcome: BoardBranch[]) => [
+        ...outcome.map(b => ({ ...b, weight: b.weight * hereWeight / sumWeights(outcome) })),
+        ...elsewhere
+      ];
+
+      if (random.next() < probability) {
+        // Path clear - the blocker was somewhere else
+        const seenAt = clearHere.filter(b => b.placement[blockerId]);
+        pathMeasurement = {
+          pieceId: blockerId,
+          collapsedTo: seenAt.length > 0 ? mostLikelyBranch(seenAt).placement[blockerId]! : to,
+          probability,
+          wasCapture: false,
+          blocked: false
         };
-        break;
+        branches = normalizeBranches(withOutcome(clearHere));
+      } else {
+        // Path blocked - nothing moves and the turn passes
+        const blockedAt = mostLikelyBranch(blockedHere).placement[blockerId]!;
+        const passed = normalizeBranches(withOutcome(blockedHere)).map(passTurnInBranch);
+        if (passed.some(b => b === null)) {
+          return { success: false, newState: state, error: 'Invalid move' };
+        }
+        const newState = advanceState(state, passed as BoardBranch[], {
+          from, to,
+          piece: movingPiece.id,
+          type: 'classical',
+          pathMeasurement: {
+            pieceId: blockerId,
+            collapsedTo: blockedAt,
+            probability: 1 - probability,
+            wasCapture: false,
+            blocked: true
+          },
+          seed: moveSeed
+        }, random);
+        return { success: true, newState };
       }
     }
 
-    if (movedPiece) {
-      // If piece was in superposition, it collapses to the moved position
-      movedPiece.positions = [{ position: toPos, probability: 1.0 }];
-      movedPiece.isInSuperposition = false;
-
-      // Handle promotion
-      if (move.promotion) {
-        movedPiece.type = chessPieceToType(move.promotion);
-      }
+    // Handle capture - with quantum collapse!
+    // For en passant, the captured pawn is NOT at 'to' - it's on the same rank as 'from'
+    const captureSquare = legalMove.flags.includes('e') ? `${to[0]}${from[1]}` as Square : to;
+    let collapseResult: CollapseResult | undefined;
 
-      newPieces.set(movedPiece.id, movedPiece);
-
-      // Handle castling - also move the rook!
-      // chess.js flags: 'k' = kingside castle, 'q' = queenside castle
-      if (move.flags.includes('k') || move.flags.includes('q')) {
-        const isKingside = move.flags.includes('k');
-        const rank = state.currentPlayer === 'white' ? 0 : 7;
-
-        // Find the rook that needs to move
-        const rookFromFile = isKingside ? 7 : 0;  // h-file or a-file
-        const rookToFile = isKingside ? 5 : 3;    // f-file or d-file
-
-        for (const [id, piece] of newPieces) {
-          if (piece.type === 'rook' && piece.owner === state.currentPlayer) {
-            const rookPos = piece.positions.find(
-              p => p.position.file === rookFromFile && p.position.rank === rank
-            );
-            if (rookPos) {
-              const updatedRook: QuantumPiece = {
-                ...piece,
-                positions: [{ position: { file: rookToFile, rank }, probability: 1.0 }],
-                isInSuperposition: false
-              };
-              newPieces.set(id, updatedRook);
-              break;
-            }
-          }
+    const targetId = branches
+      .filter(b => b.placement[movingPiece.id] === from)
+      .map(b => pieceIdAt(b, captureSquare))
+      .find(id => id !== undefined && state.pieces.get(id)?.owner !== state.currentPlayer);
+
+    if (targetId) {
+      const present = branches.filter(b => b.placement[targetId] === captureSquare);
+      const probability = sumWeights(present) / sumWeights(branches);
+
+      // If the target is only there in some branches, MEASURE it first!
+      if (probability < 1 - EPSILON) {
+        const roll = random.next();
+
+        if (roll < probability) {
+          // Capture succeeds - piece was "really" there
+          branches = normalizeBranches(present);
+          collapseResult = {
+            pieceId: targetId,
+            collapsedTo: captureSquare,
+            probability,
+            wasCapture: true
+          };
+        } else {
+          // Capture "fails" - piece wasn't there! It escapes to another position
+          const absent = normalizeBranches(branches.filter(b => b.placement[targetId] !== captureSquare));
+          const escapeBranch = mostLikelyBranch(absent);
+          const escapeSquare = escapeBranch.placement[targetId]!;
+          collapseResult = {
+            pieceId: targetId,
+            collapsedTo: escapeSquare,
+            probability: sumWeights(absent.filter(b => b.placement[targetId] === escapeSquare)) * (1 - probability),
+            wasCapture: false
+          };
+          branches = absent;
         }
       }
+    }
 
-      // Handle capture - with quantum collapse!
-      // We check BOTH:
-      // 1. Chess.js capture (move.captured) - for pieces chess.js knows about
-      // 2. Quantum superposition pieces at target - chess.js might not know about these!
-
-      // For en passant, the captured pawn is NOT at toPos - it's on the same rank as fromPos
-      const isEnPassant = move.flags.includes('e');
-      let capturedPos = toPos;
-      if (isEnPassant) {
-        capturedPos = { file: toPos.file, rank: fromPos.rank };
-      }
-
-      // Check for any enemy piece at the target position (quantum or classical)
-      for (const [id, piece] of newPieces) {
-        // Skip the piece that just moved (the attacker)
-        if (id === movedPiece.id) continue;
-
-        if (piece.owner !== state.currentPlayer) {
-          const atCapturePos = piece.positions.find(
-            p => p.position.file === capturedPos.file && p.position.rank === capturedPos.rank
-          );
-          if (atCapturePos) {
-            // If captured piece is in superposition, COLLAPSE it first!
-            if (piece.isInSuperposition && state.quantumMode) {
-              if (collapseSeed !== undefined) setRngSeed(collapseSeed);
-              const roll = seededRandom();
-
-              const pieceColor = piece.owner === 'white' ? 'w' : 'b';
-              const pieceTypeChar = piece.type === 'knight' ? 'n' : piece.type[0];
-
-              // CRITICAL: First, remove the piece from ALL its chess.js positions
-              // Chess.js only knows about ONE position (the first split target),
-              // but we need to ensure consistency
-              for (const pos of piece.positions) {
-                const sq = posToSquare(pos.position);
-                const pieceAtSq = newChess.get(sq);
-                if (pieceAtSq && pieceAtSq.color === pieceColor &&
-                  (pieceAtSq.type === pieceTypeChar ||
-                    (piece.type === 'knight' && pieceAtSq.type === 'n'))) {
-                  newChess.remove(sq);
-                }
-              }
-
-              // Check if capture succeeds based on probability at that square
-              if (roll < atCapturePos.probability) {
-                // Capture succeeds - piece was "really" there, it's already removed
-                newPieces.delete(id);
-                collapseResult = {
-                  pieceId: id,
-                  collapsedTo: posToSquare(capturedPos),
-                  probability: atCapturePos.probability,
-                  wasCapture: true
-                };
-              } else {
-                // Capture "fails" - piece wasn't there! It collapses to other position
-                const otherPositions = piece.positions.filter(
-                  p => p.position.file !== capturedPos.file || p.position.rank !== capturedPos.rank
-                );
-                if (otherPositions.length > 0) {
-                  const collapsed = otherPositions[0]!;
-                  const collapsedPiece: QuantumPiece = {
-                    ...piece,
-                    positions: [{ position: collapsed.position, probability: 1.0 }],
-                    isInSuperposition: false
-                  };
-                  newPieces.set(id, collapsedPiece);
-
-                  // Put the escaped piece at its collapse position
-                  const escapeSquare = posToSquare(collapsed.position);
-                  newChess.put({ type: pieceTypeChar as PieceSymbol, color: pieceColor }, escapeSquare);
-
-                  collapseResult = {
-                    pieceId: id,
-                    collapsedTo: escapeSquare,
-                    probability: collapsed.probability,
-                    wasCapture: false
-                  };
-                }
-              }
-            } else {
-              // Classical piece capture - delete if chess.js captured OR if our piece moved to this square
-              // (handles case where chess.js didn't know about the enemy piece)
-              newPieces.delete(id);
-
-              // Also remove from chess.js if it's still there
-              const captureSquare = posToSquare(capturedPos);
-              const pieceStillThere = newChess.get(captureSquare);
-              if (pieceStillThere && pieceStillThere.color !== (state.currentPlayer === 'white' ? 'w' : 'b')) {
-                newChess.remove(captureSquare);
-              }
-            }
-            break;
-          }
-        }
+    // The piece moves where it stands on 'from'; in every other reality
+    // (a superposed piece elsewhere) the turn just passes - no collapse
+    let move: ChessMove | undefined;
+    let next: BoardBranch[] = [];
+    for (const branch of branches) {
+      if (branch.placement[movingPiece.id] !== from) {
+        const passed = passTurnInBranch(branch);
+        if (!passed) return { success: false, newState: state, error: 'Invalid move' };
+        next.push(passed);
+        continue;
       }
+      const result = applyMoveToBranch(branch, from, to, promotion);
+      if (!result) return { success: false, newState: state, error: 'Invalid move' };
+      move ??= result.move;
+      next.push(result.branch);
     }
+    move ??= legalMove; // Measured away from 'from' in every reality
 
-    // Determine game status
-    let gameStatus: GameStatus = 'active';
-    if (newChess.isCheckmate()) {
-      gameStatus = state.currentPlayer === 'white' ? 'white_wins' : 'black_wins';
-    } else if (newChess.isStalemate()) {
-      gameStatus = 'draw_stalemate';
-    } else if (newChess.isDraw()) {
-      if (newChess.isThreefoldRepetition()) gameStatus = 'draw_repetition';
-      else if (newChess.isInsufficientMaterial()) gameStatus = 'draw_insufficient';
-      else gameStatus = 'draw_50_move';
+    // Observer rules: attacking a superposed enemy measures it too
+    let attackMeasurement: CollapseResult | undefined;
+    if (state.rules.measurement === 'attack') {
+      ({ branches: next, measurement: attackMeasurement } = measureAttackedPiece(state, next, movingPiece, random));
     }
 
-    const newState: QuantumGameState = {
-      pieces: newPieces,
-      currentPlayer: state.currentPlayer === 'white' ? 'black' : 'white',
-      turnNumber: state.turnNumber + 1,
-      gameStatus,
-      moveHistory: [...state.moveHistory, {
-        from, to,
-        piece: movedPiece?.id || 'unknown',
-        type: collapseResult ? 'quantum_capture' : (move.captured ? 'capture' : 'classical'),
-        captured: move.captured ? 'captured' : undefined,
-        promotion: move.promotion ? chessPieceToType(move.promotion) : undefined,
-        collapseResult
-      }],
-      quantumMode: state.quantumMode,
-      maxSuperpositions: state.maxSuperpositions,
-      lastCollapseResult: collapseResult,
-      chess: newChess
-    };
+    const newState = advanceState(state, next, {
+      from, to,
+      piece: movingPiece.id,
+      type: collapseResult ? 'quantum_capture' : (move.captured ? 'capture' : 'classical'),
+      captured: move.captured ? 'captured' : undefined,
+      promotion: move.promotion ? chessPieceToType(move.promotion) : undefined,
+      castle: move.flags.includes('k') ? 'kingside' : move.flags.includes('q') ? 'queenside' : undefined,
+      collapseResult,
+      pathMeasurement,
+      attackMeasurement,
+      seed: moveSeed
+    }, random);
 
     return { success: true, newState, collapseResult };
   } catch (error) {
@@ -531,20 +977,35 @@ export function makeMove(
 
 /**
  * Make a SPLIT MOVE - piece enters quantum superposition at two squares
- * Both target squares must be valid moves from the source
+ * Both target squares must be valid moves from the source.
+ * 'ratio' is the share of the probability going to to1; anything but 0.5
+ * needs the room's allowUnevenSplits rule.
+ * A piece that is already superposed can split again from one of its
+ * positions: only that position's probability is divided, up to
+ * MAX_PIECE_POSITIONS squares in total.
  */
 export function makeSplitMove(
   state: QuantumGameState,
   from: Square,
   to1: Square,
-  to2: Square
+  to2: Square,
+  ratio: number = 0.5,
+  seed?: number
 ): { success: boolean; newState: QuantumGameState; error?: string } {
   if (!state.quantumMode) {
     return { success: false, newState: state, error: 'Quantum mode is disabled' };
   }
 
-  // Both targets must be legal moves
-  const moves = state.chess.moves({ square: from, verbose: true });
+  if (!(ratio > 0 && ratio < 1)) {
+    return { success: false, newState: state, error: 'Split ratio must be between 0 and 1' };
+  }
+  const isEven = Math.abs(ratio - 0.5) < EPSILON;
+  if (!isEven && !state.rules.allowUnevenSplits) {
+    return { success: false, newState: state, error: 'Uneven splits are not allowed in this game' };
+  }
+
+  // Both targets must be legal moves in every branch - no path measurement
+  const moves = getSplitMovesFromSquare(state, from);
   const move1Valid = moves.some(m => m.to === to1);
   const move2Valid = moves.some(m => m.to === to2);
 
@@ -556,14 +1017,17 @@ export function makeSplitMove(
     return { success: false, newState: state, error: 'Split targets must be different' };
   }
 
-  // Split cannot capture - check if target squares have enemy pieces
-  const pieceAtTo1 = findPieceAtSquare(state, to1);
-  const pieceAtTo2 = findPieceAtSquare(state, to2);
-  if (pieceAtTo1 && pieceAtTo1.owner !== state.currentPlayer) {
-    return { success: false, newState: state, error: 'Cannot split to a square with an enemy piece' };
-  }
-  if (pieceAtTo2 && pieceAtTo2.owner !== state.currentPlayer) {
-    return { success: false, newState: state, error: 'Cannot split to a square with an enemy piece' };
+  // Split cannot capture unless the rules allow it - then the enemy piece
+  // is captured only in the realities where the split lands on it
+  if (!state.rules.splitCaptures) {
+    const pieceAtTo1 = findPieceAtSquare(state, to1);
+    const pieceAtTo2 = findPieceAtSquare(state, to2);
+    if (pieceAtTo1 && pieceAtTo1.owner !== state.currentPlayer) {
+      return { success: false, newState: state, error: 'Cannot split to a square with an enemy piece' };
+    }
+    if (pieceAtTo2 && pieceAtTo2.owner !== state.currentPlayer) {
+      return { success: false, newState: state, error: 'Cannot split to a square with an enemy piece' };
+    }
   }
 
   // Find the piece
@@ -572,30 +1036,32 @@ export function makeSplitMove(
     return { success: false, newState: state, error: 'No valid piece at source' };
   }
 
-  // Kings cannot split (would break check detection)
-  if (piece.type === 'king') {
+  // Kings and pawns only split where the rules allow it
+  if (piece.type === 'king' && !state.rules.kingSplits) {
     return { success: false, newState: state, error: 'Kings cannot enter superposition' };
   }
-
-  // Pawns cannot split (keeps the game simpler)
-  if (piece.type === 'pawn') {
+  if (piece.type === 'pawn' && !state.rules.pawnSplits) {
     return { success: false, newState: state, error: 'Pawns cannot enter superposition' };
   }
 
-  // Pieces already in superposition cannot split again
-  if (piece.isInSuperposition) {
-    return { success: false, newState: state, error: 'Piece is already in superposition' };
+  // Splitting again spreads the piece further - cap its squares
+  const squares = new Set(piece.positions.map(p => posToSquare(p.position)));
+  squares.delete(from);
+  squares.add(to1).add(to2);
+  if (squares.size > MAX_PIECE_POSITIONS) {
+    return { success: false, newState: state, error: `A piece can be on at most ${MAX_PIECE_POSITIONS} squares` };
   }
 
-  // Limit: Max N pieces per player in superposition (configurable)
-  const maxSuperpositions = state.maxSuperpositions ?? 2;
+  // Limit: Max N pieces per player in superposition (configurable).
+  // Splitting an already superposed piece again adds no new one.
+  const maxSuperpositions = state.rules.maxSuperpositions;
   let superpositionCount = 0;
   for (const [, p] of state.pieces) {
     if (p.owner === state.currentPlayer && p.isInSuperposition) {
       superpositionCount++;
     }
   }
-  if (superpositionCount >= maxSuperpositions) {
+  if (!piece.isInSuperposition && superpositionCount >= maxSuperpositions) {
     return {
       success: false,
       newState: state,
@@ -603,48 +1069,112 @@ export function makeSplitMove(
     };
   }
 
-  // Clone state
-  const newPieces = new Map(state.pieces);
-  const newPiece: QuantumPiece = {
-    ...piece,
-    positions: [
-      { position: squareToPos(to1), probability: 0.5 },
-      { position: squareToPos(to2), probability: 0.5 }
-    ],
-    isInSuperposition: true
-  };
-  newPieces.set(piece.id, newPiece);
-
-  // For chess.js, we move to the first position (main branch)
-  const newChess = new Chess(state.chess.fen());
-  newChess.move({ from, to: to1 });
-
-  // Check game status after split move (checkmate, stalemate, etc.)
-  let gameStatus: GameStatus = 'active';
-  if (newChess.isCheckmate()) {
-    gameStatus = state.currentPlayer === 'white' ? 'white_wins' : 'black_wins';
-  } else if (newChess.isStalemate()) {
-    gameStatus = 'draw_stalemate';
-  } else if (newChess.isDraw()) {
-    if (newChess.isThreefoldRepetition()) gameStatus = 'draw_repetition';
-    else if (newChess.isInsufficientMaterial()) gameStatus = 'draw_insufficient';
-    else gameStatus = 'draw_50_move';
-  }
-
-  const newState: QuantumGameState = {
-    pieces: newPieces,
-    currentPlayer: state.currentPlayer === 'white' ? 'black' : 'white',
-    turnNumber: state.turnNumber + 1,
-    gameStatus,
-    moveHistory: [...state.moveHistory, {
-      from, to: to1, to2,
-      piece: piece.id,
-      type: 'split'
-    }],
-    quantumMode: state.quantumMode,
-    maxSuperpositions: state.maxSuperpositions,
-    chess: newChess
-  };
+  const { seed: moveSeed, random } = createMoveRng(state, seed);
+
+  // Every branch with the piece on 'from' forks into two: one with the piece
+  // at to1, one at to2. Where it stands elsewhere the turn just passes.
+  const branches: BoardBranch[] = [];
+  for (const branch of state.branches) {
+    if (branch.placement[piece.id] !== from) {
+      const passed = passTurnInBranch(branch);
+      if (!passed) {
+        return { success: false, newState: state, error: 'The king is in check in another reality' };
+      }
+      branches.push(passed);
+      continue;
+    }
+    for (const [target, share] of [[to1, ratio], [to2, 1 - ratio]] as const) {
+      // A pawn splitting onto the last rank promotes to a queen there
+      const result = applyMoveToBranch(branch, from, target, piece.type === 'pawn' ? 'q' : undefined);
+      if (!result) {
+        return { success: false, newState: state, error: 'Invalid split move targets' };
+      }
+      branches.push({ ...result.branch, weight: branch.weight * share });
+    }
+  }
+
+  const newState = advanceState(state, branches, {
+    from, to: to1, to2,
+    ...(!isEven && { ratio }),
+    piece: piece.id,
+    type: 'split',
+    seed: moveSeed
+  }, random);
+
+  return { success: true, newState };
+}
+
+/**
+ * Make a MERGE MOVE - two positions of the same superposed piece move onto
+ * one square, adding their probabilities together.
+ * The target must be a valid move from both source squares. A piece spread
+ * over more squares keeps its other positions.
+ */
+export function makeMergeMove(
+  state: QuantumGameState,
+  from1: Square,
+  from2: Square,
+  to: Square,
+  seed?: number
+): { success: boolean; newState: QuantumGameState; error?: string } {
+  if (!state.quantumMode) {
+    return { success: false, newState: state, error: 'Quantum mode is disabled' };
+  }
+
+  if (from1 === from2) {
+    return { success: false, newState: state, error: 'Merge sources must be different' };
+  }
+
+  // Both sources must be positions of the same superposed piece
+  const piece = findPieceAtSquare(state, from1);
+  if (!piece || piece.owner !== state.currentPlayer) {
+    return { success: false, newState: state, error: 'No valid piece at source' };
+  }
+  if (!piece.isInSuperposition || findPieceAtSquare(state, from2)?.id !== piece.id) {
+    return { success: false, newState: state, error: 'Merge sources must be two positions of one piece' };
+  }
+
+  // Target must be reachable from both positions (validated per branch)
+  const move1Valid = getLegalMovesFromSquare(state, from1).some(m => m.to === to);
+  const move2Valid = getLegalMovesFromSquare(state, from2).some(m => m.to === to);
+  if (!move1Valid || !move2Valid) {
+    return { success: false, newState: state, error: 'Invalid merge target' };
+  }
+
+  // Merge cannot capture - check if target square has an enemy piece
+  const pieceAtTo = findPieceAtSquare(state, to);
+  if (pieceAtTo && pieceAtTo.owner !== state.currentPlayer) {
+    return { success: false, newState: state, error: 'Cannot merge onto a square with an enemy piece' };
+  }
+
+  const { seed: moveSeed, random } = createMoveRng(state, seed);
+
+  // Each branch moves the piece from whichever source it really occupies;
+  // where it stands on neither the turn just passes
+  const branches: BoardBranch[] = [];
+  for (const branch of state.branches) {
+    const source = branch.placement[piece.id];
+    if (source !== from1 && source !== from2) {
+      const passed = passTurnInBranch(branch);
+      if (!passed) {
+        return { success: false, newState: state, error: 'The king is in check in another reality' };
+      }
+      branches.push(passed);
+      continue;
+    }
+    const result = applyMoveToBranch(branch, source, to);
+    if (!result) {
+      return { success: false, newState: state, error: 'Invalid merge target' };
+    }
+    branches.push(result.branch);
+  }
+
+  const newState = advanceState(state, branches, {
+    from: from1, from2, to,
+    piece: piece.id,
+    type: 'merge',
+    seed: moveSeed
+  }, random);
 
   return { success: true, newState };
 }
@@ -660,8 +1190,7 @@ export function collapsePiece(
   const piece = state.pieces.get(pieceId);
   if (!piece || !piece.isInSuperposition) return null;
 
-  if (seed !== undefined) setRngSeed(seed);
-  const roll = seededRandom();
+  const roll = createMoveRng(state, seed).random.next();
 
   // Pick position based on cumulative probability
   let cumulative = 0;
@@ -674,20 +1203,17 @@ export function collapsePiece(
     }
   }
 
-  const newPieces = new Map(state.pieces);
-  const newPiece: QuantumPiece = {
-    ...piece,
-    positions: [{ position: chosenPos.position, probability: 1.0 }],
-    isInSuperposition: false
-  };
-  newPieces.set(pieceId, newPiece);
-
-  // Update chess.js to reflect the collapsed position
-  // This is tricky - we need to rebuild the board
+  // Keep only the realities where the piece is at the measured square
   const collapsedSquare = posToSquare(chosenPos.position);
+  const branches = normalizeBranches(state.branches.filter(b => b.placement[pieceId] === collapsedSquare));
 
   return {
-    newState: { ...state, pieces: newPieces },
+    newState: {
+      ...state,
+      pieces: derivePieces(branches, state.pieces),
+      branches,
+      chess: mostLikelyBranch(branches).chess
+    },
     collapsedTo: collapsedSquare,
     probability: chosenPos.probability
   };
@@ -700,8 +1226,80 @@ export function isGameOver(state: QuantumGameState): boolean {
   return state.gameStatus !== 'active';
 }
 
+/**
+ * True if the side to move is in check in at least one branch
+ */
 export function isInCheck(state: QuantumGameState): boolean {
-  return state.chess.isCheck();
+  return state.branches.some(b => b.chess.isCheck());
+}
+
+/**
+ * Probability that a player's king is attacked, summed over all branches
+ */
+export function getCheckProbability(state: QuantumGameState, player: Player): number {
+  const color = player === 'white' ? 'w' : 'b';
+  return sumWeights(state.branches.filter(b => isKingAttacked(b.chess, color)));
+}
+
+/**
+ * FIDE 6.9: could this color still mate by any series of legal moves?
+ * Not with a bare king, a lone minor piece against a bare king, or when
+ * only bishops on one square color are left besides the kings.
+ */
+function hasMatingMaterial(chess: Chess, color: Color): boolean {
+  const pieces = chess.board().flat().filter(p => p !== null && p.type !== 'k') as Array<{ square: Square; type: PieceSymbol; color: Color }>;
+  const own = pieces.filter(p => p.color === color);
+  if (own.length === 0) return false;
+  if (pieces.length === 1 && (own[0]!.type === 'b' || own[0]!.type === 'n')) return false;
+  if (pieces.every(p => p.type === 'b')) {
+    return new Set(pieces.map(p => chess.squareColor(p.square))).size > 1;
+  }
+  return true;
+}
+
+/**
+ * Probability that a player still has mating material, summed over all branches
+ */
+export function getMatingMaterialProbability(state: QuantumGameState, player: Player): number {
+  const color = player === 'white' ? 'w' : 'b';
+  return sumWeights(state.branches.filter(b => hasMatingMaterial(b.chess, color)));
+}
+
+/**
+ * A player's clock ran out. The opponent wins - unless they have no
+ * mating material, which is a draw (FIDE 6.9). If their material is
+ * superposed (e.g. a 50% queen against a bare king) it is MEASURED.
+ * The flag fall is recorded on the state so saves and PGN keep it; online
+ * games pass the seed from the peers' randomness exchange.
+ */
+export function flagFall(state: QuantumGameState, player: Player, seed?: number): QuantumGameState {
+  if (state.gameStatus !== 'active') return state;
+
+  const opponent: Player = player === 'white' ? 'black' : 'white';
+  const color = opponent === 'white' ? 'w' : 'b';
+  const { seed: flagSeed, random } = createMoveRng(state, seed);
+  const matingProbability = getMatingMaterialProbability(state, opponent);
+
+  let branches = state.branches;
+  let matingMaterial = matingProbability > 1 - EPSILON;
+  let probability = 1;
+  if (matingProbability > EPSILON && !matingMaterial) {
+    matingMaterial = random.next() < matingProbability;
+    probability = matingMaterial ? matingProbability : 1 - matingProbability;
+    branches = normalizeBranches(branches.filter(b => hasMatingMaterial(b.chess, color) === matingMaterial));
+  }
+
+  const winner = opponent === 'white' ? 'white_wins' : 'black_wins';
+  return {
+    ...state,
+    pieces: derivePieces(branches, state.pieces),
+    branches,
+    chess: mostLikelyBranch(branches).chess,
+    gameStatus: matingMaterial ? winner : 'draw_insufficient',
+    result: matingMaterial ? winner : 'draw',
+    resultReason: 'timeout',
+    flag: { player, matingMaterial, probability, seed: flagSeed }
+  };
 }
 
 /**
@@ -781,6 +1379,11 @@ export function getBoardPosition(state: QuantumGameState): Record<string, { piec
  * Clone game state
  */
 export function cloneState(state: QuantumGameState): QuantumGameState {
+  const branches = state.branches.map(b => ({
+    ...b,
+    chess: new Chess(b.chess.fen()),
+    placement: { ...b.placement }
+  }));
   return {
     pieces: new Map(Array.from(state.pieces.entries()).map(([k, v]) => [k, {
       ...v,
@@ -791,11 +1394,208 @@ export function cloneState(state: QuantumGameState): QuantumGameState {
     gameStatus: state.gameStatus,
     moveHistory: [...state.moveHistory],
     quantumMode: state.quantumMode,
-    maxSuperpositions: state.maxSuperpositions,
-    chess: new Chess(state.chess.fen())
+    rules: state.rules,
+    setup: state.setup,
+    gameSeed: state.gameSeed,
+    rng: state.rng,
+    branches,
+    chess: mostLikelyBranch(branches).chess
   };
 }
 
+/**
+ * The move a history record was made with
+ */
+export function moveFromRecord(record: MoveRecord): QuantumMove {
+  const promotionSymbols: Record<PieceType, PieceSymbol> = {
+    king: 'k', queen: 'q', rook: 'r', bishop: 'b', knight: 'n', pawn: 'p'
+  };
+  if (record.type === 'split') {
+    return {
+      type: 'split',
+      from: record.from as Square,
+      to: record.to as Square,
+      to2: record.to2 as Square,
+      ...(record.ratio !== undefined && { ratio: record.ratio })
+    };
+  }
+  if (record.type === 'merge') {
+    return { type: 'merge', from: record.from as Square, from2: record.from2 as Square, to: record.to as Square };
+  }
+  return {
+    type: 'classical',
+    from: record.from as Square,
+    to: record.to as Square,
+    promotion: record.promotion ? promotionSymbols[record.promotion] : undefined
+  };
+}
+
+/**
+ * Replay one history record with its recorded seed. Throws if the move
+ * is illegal in 'state'.
+ */
+export function applyMoveRecord(state: QuantumGameState, record: MoveRecord): QuantumGameState {
+  const move = moveFromRecord(record);
+  let result: { success: boolean; newState: QuantumGameState; error?: string };
+  if (move.type === 'split') {
+    result = makeSplitMove(state, move.from, move.to, move.to2!, move.ratio, record.seed);
+  } else if (move.type === 'merge') {
+    result = makeMergeMove(state, move.from, move.from2!, move.to, record.seed);
+  } else {
+    result = makeMove(state, move.from, move.to, move.promotion, record.seed);
+  }
+  if (!result.success) {
+    throw new Error(`Replay failed at ${record.from}->${record.to}: ${result.error}`);
+  }
+  return result.newState;
+}
+
+/**
+ * Rebuild the position after the first 'moveCount' moves of a game by
+ * replaying its history with each move's recorded seed, so measurements
+ * come out exactly as they did in the game.
+ */
+export function replayHistory(state: QuantumGameState, moveCount: number): QuantumGameState {
+  let replayed = createGame(state.quantumMode, state.rules, state.gameSeed, state.rng, state.setup);
+  for (const record of state.moveHistory.slice(0, moveCount)) {
+    replayed = applyMoveRecord(replayed, record);
+  }
+  return replayed;
+}
+
+/**
+ * Plain-JSON snapshot of a game state (no chess.js instances or Maps),
+ * so it can be sent to a peer to resync
+ */
+export interface SerializedGameState {
+  branches: Array<{ fen: string; placement: Record<string, Square>; weight: number; castlingRooks?: string[] }>;
+  pieces: QuantumPiece[];
+  currentPlayer: Player;
+  turnNumber: number;
+  gameStatus: GameStatus;
+  moveHistory: MoveRecord[];
+  quantumMode: boolean;
+  rules: QuantumRuleset;
+  setup?: StartingSetup; // Missing in snapshots from older clients
+  gameSeed: number;
+  result?: QuantumGameState['result'];
+  resultReason?: QuantumGameState['resultReason'];
+  flag?: FlagFall;
+}
+
+export function serializeState(state: QuantumGameState): SerializedGameState {
+  return {
+    branches: state.branches.map(b => ({
+      fen: b.chess.fen(),
+      placement: { ...b.placement },
+      weight: b.weight,
+      ...(b.castlingRooks && { castlingRooks: [...b.castlingRooks] })
+    })),
+    pieces: Array.from(state.pieces.values()),
+    currentPlayer: state.currentPlayer,
+    turnNumber: state.turnNumber,
+    gameStatus: state.gameStatus,
+    moveHistory: state.moveHistory,
+    quantumMode: state.quantumMode,
+    rules: state.rules,
+    setup: state.setup,
+    gameSeed: state.gameSeed,
+    result: state.result,
+    resultReason: state.resultReason,
+    ...(state.flag && { flag: state.flag })
+  };
+}
+
+/**
+ * Loose shape check for a snapshot from outside (a peer, the server,
+ * storage) before it is rebuilt. Branch FENs are still checked by chess.js.
+ */
+export function isSerializedGameState(data: unknown): data is SerializedGameState {
+  if (typeof data !== 'object' || data === null) return false;
+  const state = data as Partial<SerializedGameState>;
+  return Array.isArray(state.branches) && state.branches.length > 0
+    && state.branches.every(b => typeof b?.fen === 'string' && typeof b.placement === 'object' && typeof b.weight === 'number')
+    && Array.isArray(state.pieces)
+    && Array.isArray(state.moveHistory)
+    && (state.currentPlayer === 'white' || state.currentPlayer === 'black')
+    && typeof state.turnNumber === 'number'
+    && typeof state.gameStatus === 'string'
+    && typeof state.quantumMode === 'boolean'
+    && typeof state.gameSeed === 'number';
+}
+
+/**
+ * Rebuild a game state from a snapshot. The RNG factory is local
+ * configuration, so it is not part of the snapshot.
+ */
+export function deserializeState(data: SerializedGameState, rng: RngFactory = mulberry32): QuantumGameState {
+  const branches = data.branches.map(b => ({
+    chess: new Chess(b.fen),
+    placement: { ...b.placement },
+    weight: b.weight,
+    ...(b.castlingRooks && { castlingRooks: [...b.castlingRooks] })
+  }));
+  return {
+    pieces: new Map(data.pieces.map(p => [p.id, p])),
+    currentPlayer: data.currentPlayer,
+    turnNumber: data.turnNumber,
+    gameStatus: data.gameStatus,
+    moveHistory: data.moveHistory,
+    quantumMode: data.quantumMode,
+    rules: { ...DEFAULT_RULESET, ...data.rules },
+    setup: data.setup ?? STANDARD_SETUP,
+    gameSeed: data.gameSeed,
+    rng,
+    branches,
+    chess: mostLikelyBranch(branches).chess,
+    result: data.result,
+    resultReason: data.resultReason,
+    ...(data.flag && { flag: data.flag })
+  };
+}
+
+/**
+ * Canonical hash of a game state (pieces, probabilities, turn, boards).
+ * Both peers compare it after every move to detect desyncs.
+ */
+export function hashState(state: QuantumGameState): string {
+  // Round probabilities so float noise can't cause false mismatches
+  const prob = (p: number) => p.toFixed(6);
+
+  const pieces = Array.from(state.pieces.values())
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(piece => {
+      const positions = piece.positions
+        .map(p => `${posToSquare(p.position)}@${prob(p.probability)}`)
+        .sort()
+        .join(',');
+      return `${piece.id}=${piece.type}:${positions}`;
+    })
+    .join(';');
+
+  const branches = state.branches
+    .map(b => `${b.chess.fen()}${b.castlingRooks ? `[${b.castlingRooks.join(',')}]` : ''}@${prob(b.weight)}`)
+    .sort()
+    .join(';');
+
+  const canonical = [
+    state.currentPlayer,
+    state.turnNumber,
+    state.gameStatus,
+    state.chess.fen(),
+    pieces,
+    branches
+  ].join('|');
+
+  // FNV-1a (32-bit)
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
 /**
  * Toggle quantum mode
  */
@@ -807,19 +1607,28 @@ export function setQuantumMode(state: QuantumGameState, enabled: boolean): Quant
  * Generate Quantum FEN - a serialized representation of the game state
  * Format: STANDARD_FEN | TURN | QUANTUM_DATA
  * Quantum data: pieceId:sq1@prob1,sq2@prob2;pieceId2:...
- * Example: rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w | 1 | wN1:f3@50,h3@50
+ * A piece captured in some realities lists that share as 'x': bN1:f6@60,x@40
+ * Example: rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 | 1 | wN1:f3@50,h3@50
  */
 export function toQuantumFEN(state: QuantumGameState): string {
-  const standardFen = state.chess.fen().split(' ').slice(0, 2).join(' ');
+  const fields = state.chess.fen().split(' ');
+
+  // Chess960 castling rights are written Shredder-style as rook files
+  const { castlingRooks, placement } = mostLikelyBranch(state.branches);
+  if (castlingRooks) {
+    const files = castlingRooks.map(id => (id[0] === 'w' ? placement[id]![0]!.toUpperCase() : placement[id]![0]!));
+    fields[2] = files.sort().join('') || '-';
+  }
+  const standardFen = fields.join(' ');
 
   // Build quantum data for superposition pieces
   const quantumParts: string[] = [];
   for (const [id, piece] of state.pieces) {
-    if (piece.isInSuperposition) {
-      const positions = piece.positions
-        .map(p => `${posToSquare(p.position)}@${Math.round(p.probability * 100)}`)
-        .join(',');
-      quantumParts.push(`${id}:${positions}`);
+    const captured = 1 - piece.positions.reduce((sum, p) => sum + p.probability, 0);
+    if (piece.isInSuperposition || captured > EPSILON) {
+      const positions = piece.positions.map(p => `${posToSquare(p.position)}@${Math.round(p.probability * 100)}`);
+      if (captured > EPSILON) positions.push(`x@${Math.round(captured * 100)}`);
+      quantumParts.push(`${id}:${positions.join(',')}`);
     }
   }
 
@@ -828,6 +1637,238 @@ export function toQuantumFEN(state: QuantumGameState): string {
   return `${standardFen} | ${state.turnNumber} | ${quantumData}`;
 }
 
+// Superposed piece as written in the QFEN quantum data
+interface QfenQuantumPiece {
+  id: string;
+  color: Color;
+  squares: Array<{ square: Square; probability: number }>;
+  captured: number; // Share of realities it was captured in
+}
+
+const ID_PATTERN = /^([wb])([KQRBNP])(\d+)$/;
+const SQUARE_PATTERN = /^[a-h][1-8]$/;
+
+// Parse "wN1:f3@50,h3@50;bB0:..." - probabilities are percentages, 'x' is captured
+function parseQuantumData(data: string): QfenQuantumPiece[] {
+  if (data === '-') return [];
+
+  const seen = new Set<string>();
+  return data.split(';').map(entry => {
+    const [id, squaresPart, ...rest] = entry.split(':');
+    if (!id || !squaresPart || rest.length > 0) {
+      throw new Error(`Invalid QFEN: malformed quantum entry "${entry}"`);
+    }
+    const idMatch = ID_PATTERN.exec(id);
+    if (!idMatch) throw new Error(`Invalid QFEN: bad piece ID "${id}"`);
+    if (seen.has(id)) throw new Error(`Invalid QFEN: piece ${id} listed twice`);
+    seen.add(id);
+
+    const options = squaresPart.split(',').map(part => {
+      const [square, prob] = part.split('@');
+      const probability = Number(prob) / 100;
+      if (!square || (square !== 'x' && !SQUARE_PATTERN.test(square))) {
+        throw new Error(`Invalid QFEN: bad square "${square}" for ${id}`);
+      }
+      if (prob === undefined || prob === '' || !(probability > 0 && probability <= 1)) {
+        throw new Error(`Invalid QFEN: bad probability "${prob}" for ${id} on ${square}`);
+      }
+      return { square: square as Square | 'x', probability };
+    });
+
+    if (new Set(options.map(sq => sq.square)).size !== options.length) {
+      throw new Error(`Invalid QFEN: ${id} lists the same square twice`);
+    }
+    if (options.length < 2) throw new Error(`Invalid QFEN: ${id} needs at least two squares`);
+
+    // Percentages are rounded when written, so rescale them to sum to 1
+    const total = options.reduce((sum, sq) => sum + sq.probability, 0);
+    const squares = options
+      .filter((sq): sq is { square: Square; probability: number } => sq.square !== 'x')
+      .map(sq => ({ ...sq, probability: sq.probability / total }));
+    if (squares.length === 0) throw new Error(`Invalid QFEN: ${id} is on no square`);
+    return {
+      id,
+      color: idMatch[1] as Color,
+      squares,
+      captured: (options.find(sq => sq.square === 'x')?.probability ?? 0) / total
+    };
+  });
+}
+
+/**
+ * Parse a Quantum FEN (see toQuantumFEN) back into a game state.
+ * The FEN part may be a full FEN or just placement + side to move.
+ * Castling rights given as rook files (Shredder-FEN, e.g. 'HAha') are
+ * Chess960 rights, which the engine tracks itself instead of chess.js.
+ * QFEN only stores each piece's own probabilities, so superposed pieces
+ * are rebuilt as independent of each other. Throws on invalid input.
+ */
+export function fromQuantumFEN(
+  qfen: string,
+  quantumMode: boolean = true,
+  rules: QuantumRuleset = DEFAULT_RULESET,
+  gameSeed: number = 0,
+  rng: RngFactory = mulberry32
+): QuantumGameState {
+  const parts = qfen.split('|').map(part => part.trim());
+  if (parts.length !== 3) {
+    throw new Error('Invalid QFEN: expected "FEN | turn | quantum data"');
+  }
+  const [fenPart, turnPart, quantumPart] = parts as [string, string, string];
+
+  const turnNumber = Number(turnPart);
+  if (!Number.isInteger(turnNumber) || turnNumber < 1) {
+    throw new Error(`Invalid QFEN: bad turn number "${turnPart}"`);
+  }
+
+  // Short form only has placement + side to move - fill in the rest
+  const fenFields = fenPart.split(/\s+/);
+  if (fenFields.length !== 2 && fenFields.length !== 6) {
+    throw new Error('Invalid QFEN: FEN must have 2 or 6 fields');
+  }
+  let fen = fenFields.length === 6 ? fenFields.join(' ') : `${fenPart} - - 0 ${turnNumber}`;
+  const shredderCastling = /^[A-Ha-h]+$/.test(fenFields[2] ?? '') ? fenFields[2]! : null;
+  if (shredderCastling) fen = [...fenFields.slice(0, 2), '-', ...fenFields.slice(3)].join(' ');
+  const validation = validateFen(fen);
+  if (!validation.ok) throw new Error(`Invalid QFEN: ${validation.error}`);
+  if (fenFields.length === 2) fen = withInferredCastling(fen);
+
+  const quantumPieces = parseQuantumData(quantumPart);
+
+  // Lift the superposed pieces off the representative board
+  const base = new Chess(fen, { skipValidation: true });
+  const types = new Map<string, PieceSymbol>();
+  for (const qp of quantumPieces) {
+    // Type comes from the board (promoted pawns keep their pawn ID)
+    const shown = qp.squares.map(sq => base.get(sq.square)).find(p => p?.color === qp.color);
+    types.set(qp.id, shown?.type ?? (qp.id[1]!.toLowerCase() as PieceSymbol));
+  }
+  const lifted = new Set<Square>();
+  for (const qp of quantumPieces) {
+    for (const { square } of qp.squares) {
+      if (base.get(square)?.color === qp.color) lifted.add(square);
+    }
+  }
+  // A piece captured in some realities may be missing from the FEN's board
+  const required = quantumPieces.filter(qp => qp.captured === 0).length;
+  if (lifted.size < required || lifted.size > quantumPieces.length) {
+    throw new Error('Invalid QFEN: the FEN must show each superposed piece on exactly one of its squares');
+  }
+  for (const square of lifted) base.remove(square);
+  for (const qp of quantumPieces) {
+    for (const { square } of qp.squares) {
+      if (base.get(square)) {
+        throw new Error(`Invalid QFEN: ${qp.id} overlaps a classical piece on ${square}`);
+      }
+    }
+  }
+
+  const { pieces: classical, placement } = assignPieceIds(base, new Set(quantumPieces.map(qp => qp.id)));
+  const castlingRooks = shredderCastling ? [...shredderCastling].map(letter => {
+    const color: Color = letter === letter.toUpperCase() ? 'w' : 'b';
+    const square = `${letter.toLowerCase()}${color === 'w' ? 1 : 8}` as Square;
+    const rookId = Object.keys(placement).find(id => placement[id] === square);
+    const [kingSquare] = base.findPiece({ type: 'k', color });
+    if (!rookId || base.get(square)?.type !== 'r' || base.get(square)?.color !== color || kingSquare?.[1] !== square[1]) {
+      throw new Error(`Invalid QFEN: no rook and king for castling right "${letter}"`);
+    }
+    return rookId;
+  }) : undefined;
+
+  // One branch per combination of superposed positions
+  let branches: BoardBranch[] = [{ chess: base, placement, weight: 1, ...(castlingRooks && { castlingRooks }) }];
+  // Captors go down before the pieces they partly captured
+  const placementOrder = [...quantumPieces].sort((a, b) => Number(a.captured > 0) - Number(b.captured > 0));
+  for (const qp of placementOrder) {
+    const type = types.get(qp.id)!;
+    const next: BoardBranch[] = [];
+    // A partly captured piece was taken where its captor now stands, so
+    // its share of each square goes to the realities that leave it free
+    const total = sumWeights(branches);
+    const free = new Map(qp.squares.map(({ square }) => [
+      square,
+      sumWeights(branches.filter(branch => !pieceIdAt(branch, square))) / total
+    ]));
+    for (const branch of branches) {
+      let remaining = 1;
+      for (const { square, probability } of qp.squares) {
+        if (pieceIdAt(branch, square)) continue; // Two pieces can't share a square
+        const share = qp.captured > 0 ? Math.min(remaining, probability / free.get(square)!) : probability;
+        remaining -= share;
+        const chess = new Chess(branch.chess.fen(), { skipValidation: true });
+        chess.put({ type, color: qp.color }, square);
+        next.push({
+          ...branch,
+          chess,
+          placement: { ...branch.placement, [qp.id]: square },
+          weight: branch.weight * share
+        });
+      }
+      if (qp.captured > 0 && remaining > EPSILON) {
+        next.push({ ...branch, chess: new Chess(branch.chess.fen(), { skipValidation: true }), weight: branch.weight * remaining });
+      }
+    }
+    branches = next;
+  }
+  if (branches.length === 0) {
+    throw new Error('Invalid QFEN: superposed pieces leave no consistent board');
+  }
+  for (const branch of branches) {
+    const check = validateFen(branch.chess.fen());
+    if (!check.ok) throw new Error(`Invalid QFEN: ${check.error}`);
+  }
+  branches = normalizeBranches(branches);
+
+  // Piece shells in board order; positions come from the branches
+  const shells = new Map(classical);
+  for (const qp of quantumPieces) {
+    shells.set(qp.id, {
+      id: qp.id,
+      type: chessPieceToType(types.get(qp.id)!),
+      owner: qp.color === 'w' ? 'white' : 'black',
+      positions: [],
+      isInSuperposition: true
+    });
+  }
+
+  const currentPlayer: Player = fenFields[1] === 'w' ? 'white' : 'black';
+  return {
+    pieces: derivePieces(branches, shells),
+    currentPlayer,
+    turnNumber,
+    gameStatus: evaluateGameStatus(branches, currentPlayer === 'white' ? 'black' : 'white'),
+    moveHistory: [],
+    quantumMode,
+    rules,
+    setup: { kind: 'custom', position: qfen },
+    gameSeed,
+    rng,
+    branches,
+    chess: mostLikelyBranch(branches).chess
+  };
+}
+
+// Grant castling rights wherever king and rook still stand on their home squares
+function withInferredCastling(fen: string): string {
+  const chess = new Chess(fen, { skipValidation: true });
+  const has = (square: Square, type: PieceSymbol, color: Color) => {
+    const piece = chess.get(square);
+    return piece?.type === type && piece.color === color;
+  };
+  let rights = '';
+  if (has('e1', 'k', 'w')) {
+    if (has('h1', 'r', 'w')) rights += 'K';
+    if (has('a1', 'r', 'w')) rights += 'Q';
+  }
+  if (has('e8', 'k', 'b')) {
+    if (has('h8', 'r', 'b')) rights += 'k';
+    if (has('a8', 'r', 'b')) rights += 'q';
+  }
+  const fields = fen.split(' ');
+  fields[2] = rights || '-';
+  return fields.join(' ');
+}
+
 /**
  * Get a human-readable game log
  */
@@ -849,14 +1890,32 @@ export function getGameLog(state: QuantumGameState): string {
     let moveStr = `${i + 1}. ${move.piece} ${move.from}->${move.to}`;
     if (move.type === 'split' && move.to2) {
       moveStr = `${i + 1}. ${move.piece} SPLIT ${move.from}->${move.to}/${move.to2}`;
+    } else if (move.type === 'merge' && move.from2) {
+      moveStr = `${i + 1}. ${move.piece} MERGE ${move.from}+${move.from2}->${move.to}`;
     } else if (move.type === 'quantum_capture' && move.collapseResult) {
       const cr = move.collapseResult;
       moveStr += ` [COLLAPSE: ${cr.pieceId} -> ${cr.collapsedTo} (${Math.round(cr.probability * 100)}%) ${cr.wasCapture ? '✓ Captured' : '✗ Escaped'}]`;
     } else if (move.captured) {
       moveStr += ` x${move.captured}`;
     }
+    if (move.pathMeasurement) {
+      const pm = move.pathMeasurement;
+      moveStr += ` [PATH: ${pm.pieceId} -> ${pm.collapsedTo} (${Math.round(pm.probability * 100)}%) ${pm.blocked ? '✗ Blocked' : '✓ Clear'}]`;
+    }
+    if (move.attackMeasurement) {
+      const am = move.attackMeasurement;
+      moveStr += ` [OBSERVED: ${am.pieceId} -> ${am.collapsedTo} (${Math.round(am.probability * 100)}%)]`;
+    }
+    if (move.checkMeasurement) {
+      const cm = move.checkMeasurement;
+      moveStr += ` [CHECK MEASURED: ${cm.player} ${cm.inCheck ? 'in check' : 'safe'} (${Math.round(cm.probability * 100)}%)]`;
+    }
     lines.push(moveStr);
   }
+  if (state.flag) {
+    const ff = state.flag;
+    lines.push(`FLAG: ${ff.player} out of time, opponent ${ff.matingMaterial ? 'can mate' : 'cannot mate - draw'} (${Math.round(ff.probability * 100)}%)`);
+  }
 
   // Superposition pieces
   lines.push('');
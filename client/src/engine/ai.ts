@@ -0,0 +1,409 @@
+/**
+ * Quantum-aware AI opponent
+ *
+ * Expectiminimax over the branch-based engine: the side to move picks the
+ * best move, and every capture of a superposed piece becomes a chance node
+ * whose outcomes (hit / miss) are weighted by the measurement probability.
+ * The evaluation averages material and piece placement over all branches,
+ * so a split is only played when the search finds it pays off - e.g. moving
+ * a threatened piece half out of danger or covering two squares at once.
+ */
+
+import type { Chess, Square, PieceSymbol } from 'chess.js';
+import {
+  makeMove,
+  makeSplitMove,
+  makeMergeMove,
+  getLegalMoves,
+  getLegalMovesFromSquare,
+  getSplitMovesFromSquare,
+  findPieceAtSquare,
+  posToSquare,
+  type QuantumGameState,
+  type QuantumMove,
+  type CollapseResult,
+  type SerializedGameState
+} from './ChessEngine';
+import type { RngFactory } from './rng';
+
+export type AILevel = 'easy' | 'medium' | 'hard' | 'expert';
+
+interface AILevelSettings {
+  label: string;
+  depth: number; // Max plies searched (iterative deepening)
+  timeLimitMs: number; // Search stops at the first depth that runs out of time
+  maxSplits: number; // Split candidates considered per position
+  noise: number; // Random centipawns added to root scores - makes weak levels err
+}
+
+export const AI_LEVELS: Record<AILevel, AILevelSettings> = {
+  easy: { label: 'Easy', depth: 1, timeLimitMs: 1000, maxSplits: 2, noise: 150 },
+  medium: { label: 'Medium', depth: 2, timeLimitMs: 2000, maxSplits: 4, noise: 40 },
+  hard: { label: 'Hard', depth: 3, timeLimitMs: 4000, maxSplits: 6, noise: 0 },
+  expert: { label: 'Expert', depth: 4, timeLimitMs: 8000, maxSplits: 8, noise: 0 }
+};
+
+// Worker protocol
+export interface AIRequest {
+  requestId: number;
+  state: SerializedGameState;
+  level: AILevel;
+}
+
+export interface AIResponse {
+  requestId: number;
+  move: QuantumMove | null;
+  score: number; // Search score in centipawns, white's point of view
+}
+
+export interface PositionEvaluation {
+  score: number; // Sum of the terms below - centipawns, white's point of view
+  material: number; // Material and placement averaged over all branches
+  uncertainty: number; // Bonus for pieces in superposition
+  kingSafety: number; // Penalty for kings in check or exposed in some branches
+}
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 100, n: 320, b: 330, r: 500, q: 900, k: 0 };
+export const MATE_SCORE = 100000;
+// Share of a superposed piece's value it earns for being hard to pin down
+const UNCERTAINTY_WEIGHT = 0.1;
+const CHECK_PENALTY = 50;
+const KING_ZONE_PENALTY = 10; // Per attacked square next to the king
+const INFINITY = 1e9;
+// A roll of (almost) 1 makes every measurement miss, a roll of 0 makes it hit
+const MISS_ROLL = 1 - 1e-9;
+
+// RNG that plays back the given rolls, then rolls 0 - lets the search choose
+// each measurement's outcome (0 = hit / in check, MISS_ROLL = the other one)
+const scriptedRolls = (rolls: number[]): RngFactory => () => {
+  let i = 0;
+  return { next: () => rolls[i++] ?? 0 };
+};
+
+const TIMEOUT = new Error('AI search timed out');
+
+interface SearchContext {
+  deadline: number;
+  maxSplits: number;
+}
+
+interface Candidate {
+  move: QuantumMove;
+  order: number; // Higher is searched first
+}
+
+// Small placement bonus: centralize minor pieces, push pawns
+function placementBonus(type: PieceSymbol, square: Square, color: 'w' | 'b'): number {
+  const file = square.charCodeAt(0) - 97;
+  const rank = Number(square[1]) - 1;
+  if (type === 'p') return (color === 'w' ? rank - 1 : 6 - rank) * 8;
+  if (type === 'k' || type === 'r') return 0;
+  const centerDistance = Math.max(Math.abs(file - 3.5), Math.abs(rank - 3.5));
+  return Math.round((3.5 - centerDistance) * 8);
+}
+
+// Penalty for one king in one branch: in check, plus attacked squares around it
+function kingDanger(chess: Chess, color: 'w' | 'b'): number {
+  const king = chess.findPiece({ type: 'k', color })[0];
+  if (!king) return 0;
+  const enemy = color === 'w' ? 'b' : 'w';
+  const file = king.charCodeAt(0);
+  const rank = Number(king[1]);
+
+  let danger = chess.isAttacked(king, enemy) ? CHECK_PENALTY : 0;
+  for (let df = -1; df <= 1; df++) {
+    for (let dr = -1; dr <= 1; dr++) {
+      const f = file + df;
+      const r = rank + dr;
+      if ((df === 0 && dr === 0) || f < 97 || f > 104 || r < 1 || r > 8) continue;
+      if (chess.isAttacked(`${String.fromCharCode(f)}${r}` as Square, enemy)) danger += KING_ZONE_PENALTY;
+    }
+  }
+  return danger;
+}
+
+/**
+ * Static evaluation from white's point of view. Every branch is scored as
+ * a classical board and weighted by its probability, so a 50% queen counts
+ * as half a queen; superposed pieces earn a small bonus on top because the
+ * opponent can't be sure where to hit them.
+ */
+export function evaluatePosition(state: QuantumGameState): PositionEvaluation {
+  let material = 0;
+  let kingSafety = 0;
+  for (const branch of state.branches) {
+    let branchScore = 0;
+    for (const row of branch.chess.board()) {
+      for (const piece of row) {
+        if (!piece) continue;
+        const value = PIECE_VALUES[piece.type] + placementBonus(piece.type, piece.square, piece.color);
+        branchScore += piece.color === 'w' ? value : -value;
+      }
+    }
+    material += branchScore * branch.weight;
+    kingSafety += (kingDanger(branch.chess, 'b') - kingDanger(branch.chess, 'w')) * branch.weight;
+  }
+
+  let uncertainty = 0;
+  for (const [, piece] of state.pieces) {
+    if (!piece.isInSuperposition) continue;
+    const likeliest = Math.max(...piece.positions.map(p => p.probability));
+    const symbol = piece.type === 'knight' ? 'n' : piece.type[0] as PieceSymbol;
+    const bonus = UNCERTAINTY_WEIGHT * PIECE_VALUES[symbol] * (1 - likeliest);
+    uncertainty += piece.owner === 'white' ? bonus : -bonus;
+  }
+
+  return { score: material + uncertainty + kingSafety, material, uncertainty, kingSafety };
+}
+
+// Static score in centipawns from white's point of view
+export function evaluate(state: QuantumGameState): number {
+  return evaluatePosition(state).score;
+}
+
+// Expected score for white (0-1) for a score - a logistic curve like most chess GUIs
+export function scoreToWinProbability(score: number): number {
+  return 1 / (1 + Math.pow(10, -score / 400));
+}
+
+/**
+ * White's expected score (0-1): 1, 0 or 0.5 once the game is decided,
+ * otherwise from the static evaluation
+ */
+export function winProbability(state: QuantumGameState): number {
+  if (state.gameStatus === 'white_wins') return 1;
+  if (state.gameStatus === 'black_wins') return 0;
+  if (state.gameStatus !== 'active') return 0.5;
+  return scoreToWinProbability(evaluate(state));
+}
+
+// Score of a finished game for the side to move; faster mates score higher
+function terminalScore(state: QuantumGameState, ply: number): number {
+  if (state.gameStatus === 'white_wins' || state.gameStatus === 'black_wins') {
+    const winner = state.gameStatus === 'white_wins' ? 'white' : 'black';
+    return winner === state.currentPlayer ? MATE_SCORE - ply : -(MATE_SCORE - ply);
+  }
+  return 0;
+}
+
+// Classical moves, promising splits and merges for the side to move
+function generateMoves(state: QuantumGameState, maxSplits: number): Candidate[] {
+  const candidates: Candidate[] = [];
+  const seen = new Set<string>();
+
+  for (const m of getLegalMoves(state)) {
+    // Under-promotions are almost never better - skip them to keep the tree small
+    if (m.promotion && m.promotion !== 'q') continue;
+    const key = `${m.from}${m.to}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const order = m.captured ? 10 * PIECE_VALUES[m.captured] - PIECE_VALUES[m.piece] / 10 : m.promotion ? 5000 : 0;
+    candidates.push({ move: { type: 'classical', from: m.from, to: m.to, promotion: m.promotion }, order });
+  }
+
+  if (!state.quantumMode) return candidates;
+
+  const enemy = state.currentPlayer === 'white' ? 'b' : 'w';
+  let superposed = 0;
+  for (const [, piece] of state.pieces) {
+    if (piece.owner === state.currentPlayer && piece.isInSuperposition) superposed++;
+  }
+
+  const splits: Candidate[] = [];
+  for (const [, piece] of state.pieces) {
+    if (piece.owner !== state.currentPlayer) continue;
+
+    if (piece.isInSuperposition) {
+      // Merges: quiet targets reachable from two of the piece's positions
+      const squares = piece.positions.map(p => posToSquare(p.position));
+      for (let i = 0; i < squares.length; i++) {
+        for (let j = i + 1; j < squares.length; j++) {
+          const targets = new Set(getLegalMovesFromSquare(state, squares[j]!).map(m => m.to));
+          for (const m of getLegalMovesFromSquare(state, squares[i]!)) {
+            if (m.captured || !targets.has(m.to)) continue;
+            candidates.push({ move: { type: 'merge', from: squares[i]!, from2: squares[j]!, to: m.to }, order: -50 });
+          }
+        }
+      }
+      continue;
+    }
+
+    if (piece.type === 'king' && !state.rules.kingSplits) continue;
+    if (piece.type === 'pawn' && !state.rules.pawnSplits) continue;
+    if (superposed >= state.rules.maxSuperpositions) continue;
+
+    // Splits: pair up the most central quiet targets
+    const from = posToSquare(piece.positions[0]!.position);
+    const targets = getSplitMovesFromSquare(state, from)
+      .filter(m => !m.captured && !findPieceAtSquare(state, m.to) && (!m.promotion || m.promotion === 'q'))
+      .sort((a, b) => placementBonus(b.piece, b.to, b.color) - placementBonus(a.piece, a.to, a.color))
+      .slice(0, 3)
+      .map(m => m.to);
+    // Splitting a threatened piece is the classic use - try those first
+    const threatened = state.chess.isAttacked(from, enemy);
+    for (let i = 0; i < targets.length; i++) {
+      for (let j = i + 1; j < targets.length; j++) {
+        splits.push({ move: { type: 'split', from, to: targets[i]!, to2: targets[j]! }, order: threatened ? 100 : -100 });
+      }
+    }
+  }
+
+  splits.sort((a, b) => b.order - a.order);
+  candidates.push(...splits.slice(0, maxSplits));
+  return candidates.sort((a, b) => b.order - a.order);
+}
+
+// Apply a move with its measurements forced to the given rolls
+function applyMove(
+  state: QuantumGameState,
+  move: QuantumMove,
+  rolls: number[]
+): { success: boolean; newState: QuantumGameState; collapseResult?: CollapseResult } {
+  const rolled = { ...state, rng: scriptedRolls(rolls) };
+  if (move.type === 'split') return makeSplitMove(rolled, move.from, move.to, move.to2!, move.ratio);
+  if (move.type === 'merge') return makeMergeMove(rolled, move.from, move.from2!, move.to);
+  return makeMove(rolled, move.from, move.to, move.promotion);
+}
+
+/**
+ * Every state a move can lead to, with its probability. Each measurement
+ * the move triggers - a partly blocked path, a capture of a superposed
+ * piece, an observed enemy under the observer rules, then a forced check
+ * measurement - splits the outcomes in two. (A full board collapse after
+ * that is left to roll 0.)
+ */
+export function getMoveOutcomes(
+  state: QuantumGameState,
+  move: QuantumMove
+): Array<{ state: QuantumGameState; probability: number }> {
+  const outcomes: Array<{ state: QuantumGameState; probability: number }> = [];
+
+  // 'result' is the move played with 'rolls' and 0 for every later roll
+  const explore = (rolls: number[], probability: number, result = applyMove(state, move, rolls)) => {
+    if (!result.success) return;
+
+    // Chances of the rolled-0 outcomes, in roll order
+    const record = result.newState.moveHistory[result.newState.moveHistory.length - 1]!;
+    const chances = [record.pathMeasurement, record.collapseResult, record.attackMeasurement, record.checkMeasurement]
+      .filter(m => m !== undefined)
+      .map(m => m.probability);
+
+    const next = chances[rolls.length];
+    if (next === undefined) {
+      outcomes.push({ state: result.newState, probability });
+      return;
+    }
+    explore([...rolls, 0], probability * next, result);
+    explore([...rolls, MISS_ROLL], probability * (1 - next));
+  };
+
+  explore([], 1);
+  return outcomes;
+}
+
+// Negamax with alpha-beta at decision nodes. Chance nodes average their
+// outcomes with a full window, since pruning through them is unsound.
+function search(state: QuantumGameState, depth: number, alpha: number, beta: number, ply: number, ctx: SearchContext): number {
+  if (state.gameStatus !== 'active') return terminalScore(state, ply);
+  const sign = state.currentPlayer === 'white' ? 1 : -1;
+  if (depth === 0) return sign * evaluate(state);
+  if (Date.now() > ctx.deadline) throw TIMEOUT;
+
+  let best = -INFINITY;
+  for (const { move } of generateMoves(state, ctx.maxSplits)) {
+    const value = expectedValue(state, move, depth, alpha, beta, ply, ctx);
+    if (value === null) continue;
+    if (value > best) best = value;
+    if (best > alpha) alpha = best;
+    if (alpha >= beta) break;
+  }
+
+  return best === -INFINITY ? sign * evaluate(state) : best;
+}
+
+// Value of a move for the side making it, or null if it is illegal
+function expectedValue(
+  state: QuantumGameState,
+  move: QuantumMove,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  ctx: SearchContext
+): number | null {
+  const outcomes = getMoveOutcomes(state, move);
+  if (outcomes.length === 0) return null;
+  if (outcomes.length === 1) {
+    return -search(outcomes[0]!.state, depth - 1, -beta, -alpha, ply + 1, ctx);
+  }
+  return outcomes.reduce(
+    (sum, outcome) => sum + outcome.probability * -search(outcome.state, depth - 1, -INFINITY, INFINITY, ply + 1, ctx),
+    0
+  );
+}
+
+/**
+ * Search the position: the best move for the side to move and its score
+ * (centipawns, white's point of view). Searches deeper until the level's
+ * depth or time limit is reached and keeps the result of the last
+ * completed depth. The move is null if there is no legal move.
+ */
+export function analyzePosition(
+  state: QuantumGameState,
+  level: AILevel = 'medium',
+  random: () => number = Math.random
+): { move: QuantumMove | null; score: number } {
+  const sign = state.currentPlayer === 'white' ? 1 : -1;
+  if (state.gameStatus !== 'active') return { move: null, score: sign * terminalScore(state, 0) };
+
+  const settings = AI_LEVELS[level];
+  const ctx: SearchContext = { deadline: Date.now() + settings.timeLimitMs, maxSplits: settings.maxSplits };
+  const noise = new Map<QuantumMove, number>();
+
+  let rootMoves = generateMoves(state, settings.maxSplits).map(c => c.move);
+  for (const move of rootMoves) noise.set(move, (random() - 0.5) * 2 * settings.noise);
+
+  let bestMove: QuantumMove | null = null;
+  let bestScore = sign * evaluate(state);
+  for (let depth = 1; depth <= settings.depth; depth++) {
+    const scores = new Map<QuantumMove, number>();
+    try {
+      let alpha = -INFINITY;
+      for (const move of rootMoves) {
+        const value = expectedValue(state, move, depth, alpha, INFINITY, 0, ctx);
+        if (value === null) continue;
+        const score = value + noise.get(move)!;
+        scores.set(move, score);
+        // Noisy scores aren't search bounds, so weak levels search full-width
+        if (settings.noise === 0 && value > alpha) alpha = value;
+      }
+    } catch (error) {
+      if (error !== TIMEOUT) throw error;
+      break; // Keep the result of the last completed depth
+    }
+
+    // Search the best moves first next time - makes alpha-beta cut more
+    rootMoves = rootMoves.filter(m => scores.has(m)).sort((a, b) => scores.get(b)! - scores.get(a)!);
+    bestMove = rootMoves[0] ?? null;
+    if (!bestMove) break;
+    bestScore = sign * (scores.get(bestMove)! - noise.get(bestMove)!);
+    if (Math.abs(bestScore) >= MATE_SCORE - 100) break;
+  }
+
+  // Out of time before depth 1 finished - any legal move beats none
+  return {
+    move: bestMove ?? rootMoves.find(m => getMoveOutcomes(state, m).length > 0) ?? null,
+    score: bestScore
+  };
+}
+
+/**
+ * Pick a move for the side to move, or null if there is no legal move
+ */
+export function findBestMove(
+  state: QuantumGameState,
+  level: AILevel = 'medium',
+  random: () => number = Math.random
+): QuantumMove | null {
+  return analyzePosition(state, level, random).move;
+}
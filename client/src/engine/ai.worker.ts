@@ -0,0 +1,12 @@
+/**
+ * Web Worker that runs the AI search off the main thread
+ */
+
+import { deserializeState } from './ChessEngine';
+import { analyzePosition, type AIRequest, type AIResponse } from './ai';
+
+self.onmessage = (event: MessageEvent<AIRequest>) => {
+  const { requestId, state, level } = event.data;
+  const response: AIResponse = { requestId, ...analyzePosition(deserializeState(state), level) };
+  self.postMessage(response);
+};
@@ -0,0 +1,131 @@
+/**
+ * Post-game analysis - did the dice decide the game?
+ *
+ * Replays a game move by move. For every move that triggered a measurement,
+ * luck is the mover's expected score after what actually happened minus the
+ * probability-weighted expected score over every outcome the move could have
+ * had. Summed per player, it separates the dice from the decisions.
+ */
+
+import {
+  createGame,
+  applyMoveRecord,
+  flagFall,
+  moveFromRecord,
+  type QuantumGameState,
+  type Player
+} from './ChessEngine';
+import { getMoveOutcomes, winProbability } from './ai';
+
+export interface MeasurementReport {
+  moveIndex: number;
+  player: Player; // Who made the measuring move
+  path?: {
+    pieceId: string; // The piece that might have stood in the way
+    square: string; // Where it was found
+    probability: number; // Chance the path was clear
+    clear: boolean;
+  };
+  capture?: {
+    pieceId: string;
+    square: string; // Square the capture aimed at
+    probability: number; // Chance the target was there
+    hit: boolean;
+  };
+  attack?: {
+    pieceId: string; // Superposed enemy the moved piece attacked
+    square: string; // Where it was found
+    probability: number; // Chance it was found there
+  };
+  check?: {
+    player: Player; // Whose king was measured
+    probability: number; // Chance it was in check
+    inCheck: boolean;
+  };
+  luck: number; // Expected score the mover gained (+) or lost (-) to the dice
+}
+
+export interface GameAnalysis {
+  measurements: MeasurementReport[];
+  luck: Record<Player, number>; // Total per player
+  expectedScores: number[]; // White's expected score after each move (index 0 = start)
+  skillScores: number[]; // The same with all luck taken out - what the moves alone earned
+  winner: Player | null;
+  winnerWasLucky: boolean | null; // null for draws and unfinished games
+}
+
+// Expected score for one player
+function expectedScore(state: QuantumGameState, player: Player): number {
+  const white = winProbability(state);
+  return player === 'white' ? white : 1 - white;
+}
+
+/**
+ * Analyse a game from its move history. Throws if the history
+ * does not replay.
+ */
+export function analyzeGame(state: QuantumGameState): GameAnalysis {
+  let position = createGame(state.quantumMode, state.rules, state.gameSeed, state.rng, state.setup);
+  const measurements: MeasurementReport[] = [];
+  const luck: Record<Player, number> = { white: 0, black: 0 };
+  const expectedScores = [winProbability(position)];
+  const skillScores = [expectedScores[0]!];
+  let whiteLuck = 0; // Running total from white's point of view
+
+  state.moveHistory.forEach((record, moveIndex) => {
+    const before = position;
+    const player = before.currentPlayer;
+    position = applyMoveRecord(before, record);
+
+    if (record.pathMeasurement || record.collapseResult || record.attackMeasurement || record.checkMeasurement) {
+      const outcomes = getMoveOutcomes(before, moveFromRecord(record));
+      const expected = outcomes.reduce((sum, o) => sum + o.probability * expectedScore(o.state, player), 0);
+      const moveLuck = expectedScore(position, player) - expected;
+
+      const report: MeasurementReport = { moveIndex, player, luck: moveLuck };
+      if (record.pathMeasurement) {
+        const { pieceId, collapsedTo, probability, blocked } = record.pathMeasurement;
+        report.path = { pieceId, square: collapsedTo, probability: blocked ? 1 - probability : probability, clear: !blocked };
+      }
+      if (record.collapseResult) {
+        // Chance the target stood on the square - the engine measures it across every reality
+        const { pieceId, wasCapture, collapsedTo, probability } = record.collapseResult;
+        const square = wasCapture ? collapsedTo : record.to;
+        const present = before.branches
+          .filter(b => b.placement[pieceId] === square)
+          .reduce((sum, b) => sum + b.weight, 0);
+        report.capture = { pieceId, square, probability: wasCapture ? probability : present, hit: wasCapture };
+      }
+      if (record.attackMeasurement) {
+        const { pieceId, collapsedTo, probability } = record.attackMeasurement;
+        report.attack = { pieceId, square: collapsedTo, probability };
+      }
+      if (record.checkMeasurement) {
+        const { player: measured, inCheck, probability } = record.checkMeasurement;
+        report.check = { player: measured, inCheck, probability: inCheck ? probability : 1 - probability };
+      }
+
+      measurements.push(report);
+      luck[player] += moveLuck;
+      whiteLuck += player === 'white' ? moveLuck : -moveLuck;
+    }
+
+    // A flag fall after the last move ends the game on the clock, not the board
+    const flag = state.flag;
+    if (flag && moveIndex === state.moveHistory.length - 1) position = flagFall(position, flag.player, flag.seed);
+
+    const score = winProbability(position);
+    expectedScores.push(score);
+    skillScores.push(Math.min(1, Math.max(0, score - whiteLuck)));
+  });
+
+  const winner = state.gameStatus === 'white_wins' ? 'white' : state.gameStatus === 'black_wins' ? 'black' : null;
+  return {
+    measurements,
+    luck,
+    expectedScores,
+    skillScores,
+    winner,
+    winnerWasLucky: winner ? luck[winner] > 0 : null
+  };
+}
@@ -0,0 +1,361 @@
+/**
+ * Quantum PGN - PGN-compatible game records for quantum chess
+ *
+ * Standard tag pairs plus MaxSuperpositions, UnevenSplits, Rules, Seed and
+ * TimeControl. Rules lists the rule switches that are on, e.g.
+ *   [Rules "PawnSplits KingSplits AttackMeasures"]
+ * Games that don't start from the standard position carry SetUp "1" and
+ * their start in FEN (a QFEN when pieces start superposed). Chess960
+ * castling is written as the king moving onto its rook: Kb1-h1
+ * Moves are written in long algebraic form so they can be replayed
+ * without the board context SAN needs:
+ *   Classical:  Ng1-f3, e2-e4, Bc4xf7, e7-e8=Q
+ *   Split:      Ng1^f3h3     (one piece into two squares)
+ *               Ng1^f3h3/25  (uneven: 25% to f3, 75% to h3)
+ *   Merge:      Nf3h3^g5     (two positions of one piece into one square)
+ * Measurement outcomes and RNG seeds go into comments as PGN command
+ * annotations, which other tools skip:
+ *   {[%seed 123456] [%collapse bN1 f6 0.50 hit] [%check black 1 0.50]}
+ *   {[%seed 123456] [%path bN1 b1 0.50 blocked]}
+ *   {[%seed 123456] [%observe bN1 f6 0.50]}
+ * A flag fall gets its own comment after the moves: who ran out of time,
+ * whether the opponent could still mate (0 = draw), its probability and
+ * the seed:
+ *   {[%flag white 1 1.0000 654321]}
+ */
+
+import type { Square, PieceSymbol } from 'chess.js';
+import {
+  createGame,
+  makeMove,
+  makeSplitMove,
+  makeMergeMove,
+  flagFall,
+  type QuantumGameState,
+  type MoveRecord,
+  type FlagFall,
+  type PieceType,
+  type GameStatus,
+  type Player
+} from './ChessEngine';
+import { mulberry32, type RngFactory } from './rng';
+import { DEFAULT_RULESET, type QuantumRuleset } from './rulesets';
+import { STANDARD_SETUP, startingQFEN } from './setups';
+
+export type PGNTags = Record<string, string>;
+
+// Seven Tag Roster order, then our own tags
+const TAG_ORDER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result', 'Variant', 'SetUp', 'FEN', 'MaxSuperpositions', 'UnevenSplits', 'Rules', 'Seed', 'TimeControl', 'Termination'];
+
+const PROMOTION_LETTERS: Record<PieceType, string> = {
+  king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: 'P'
+};
+
+// Rule switches written to the Rules tag, each set when its word is listed
+const RULE_WORDS: Array<[string, (rules: QuantumRuleset) => boolean, Partial<QuantumRuleset>]> = [
+  ['PawnSplits', rules => rules.pawnSplits, { pawnSplits: true }],
+  ['KingSplits', rules => rules.kingSplits, { kingSplits: true }],
+  ['SplitCaptures', rules => rules.splitCaptures, { splitCaptures: true }],
+  ['AttackMeasures', rules => rules.measurement === 'attack', { measurement: 'attack' }],
+  ['Exclusion', rules => rules.exclusion, { exclusion: true }]
+];
+
+function formatRules(rules: QuantumRuleset): string {
+  return RULE_WORDS.filter(([, isOn]) => isOn(rules)).map(([word]) => word).join(' ');
+}
+
+function parseRules(tags: PGNTags, maxSuperpositions: number): QuantumRuleset {
+  let rules: QuantumRuleset = { ...DEFAULT_RULESET, maxSuperpositions, allowUnevenSplits: tags.UnevenSplits === 'Yes' };
+  for (const word of (tags.Rules ?? '').split(/\s+/).filter(Boolean)) {
+    const rule = RULE_WORDS.find(([name]) => name === word);
+    if (!rule) throw new Error(`Invalid Quantum PGN: unknown rule "${word}"`);
+    rules = { ...rules, ...rule[2] };
+  }
+  return rules;
+}
+
+// SetUp and FEN tags for a game that doesn't start from the standard position
+function startingTags(state: QuantumGameState): PGNTags {
+  const start = startingQFEN(state.setup, state.gameSeed);
+  if (!start) return {};
+  // A plain FEN when nothing starts superposed
+  const [fen, , quantumData] = start.split('|').map(part => part.trim());
+  return { SetUp: '1', FEN: quantumData === '-' ? fen! : start };
+}
+
+// PGN result token for a game state
+function resultToken(state: QuantumGameState): string {
+  if (state.gameStatus === 'white_wins') return '1-0';
+  if (state.gameStatus === 'black_wins') return '0-1';
+  if (state.gameStatus.startsWith('draw')) return '1/2-1/2';
+  return '*';
+}
+
+// PGN Termination tag value (see the PGN spec, section 9.8.1)
+function terminationTag(state: QuantumGameState): string {
+  if (state.gameStatus === 'active') return 'unterminated';
+  if (state.resultReason === 'timeout') return 'time forfeit';
+  if (state.resultReason === 'protocol_violation') return 'rules infraction';
+  if (state.gameStatus === 'aborted') return 'abandoned';
+  return 'normal';
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+// Move text for one record
+function formatMove(move: MoveRecord): string {
+  // Piece ID format: wK0, bN1, wP2 - pawns get no letter
+  const letter = move.piece.charAt(1) === 'P' ? '' : move.piece.charAt(1);
+
+  if (move.type === 'split' && move.to2) {
+    const ratio = move.ratio !== undefined ? `/${Math.round(move.ratio * 100)}` : '';
+    return `${letter}${move.from}^${move.to}${move.to2}${ratio}`;
+  }
+  if (move.type === 'merge' && move.from2) return `${letter}${move.from}${move.from2}^${move.to}`;
+
+  const separator = move.captured || move.type === 'quantum_capture' ? 'x' : '-';
+  const promotion = move.promotion ? `=${PROMOTION_LETTERS[move.promotion]}` : '';
+  return `${letter}${move.from}${separator}${move.to}${promotion}`;
+}
+
+// Comment with the seed and any measurement outcomes for one record
+function formatAnnotations(move: MoveRecord): string {
+  const parts = [`[%seed ${move.seed}]`];
+  if (move.collapseResult) {
+    const { pieceId, collapsedTo, probability, wasCapture } = move.collapseResult;
+    parts.push(`[%collapse ${pieceId} ${collapsedTo} ${probability.toFixed(4)} ${wasCapture ? 'hit' : 'miss'}]`);
+  }
+  if (move.pathMeasurement) {
+    const { pieceId, collapsedTo, probability, blocked } = move.pathMeasurement;
+    parts.push(`[%path ${pieceId} ${collapsedTo} ${probability.toFixed(4)} ${blocked ? 'blocked' : 'clear'}]`);
+  }
+  if (move.attackMeasurement) {
+    const { pieceId, collapsedTo, probability } = move.attackMeasurement;
+    parts.push(`[%observe ${pieceId} ${collapsedTo} ${probability.toFixed(4)}]`);
+  }
+  if (move.checkMeasurement) {
+    const { player, inCheck, probability } = move.checkMeasurement;
+    parts.push(`[%check ${player} ${inCheck ? 1 : 0} ${probability.toFixed(4)}]`);
+  }
+  return `{${parts.join(' ')}}`;
+}
+
+// Comment for a flag fall - it follows the moves, so a game can end on one before any move
+function formatFlag({ player, matingMaterial, probability, seed }: FlagFall): string {
+  return `{[%flag ${player} ${matingMaterial ? 1 : 0} ${probability.toFixed(4)} ${seed}]}`;
+}
+
+/**
+ * Write a game as Quantum PGN. Extra tags (White, Black, Site,
+ * TimeControl, ...) are merged over the defaults.
+ */
+export function toQuantumPGN(state: QuantumGameState, tags: PGNTags = {}): string {
+  const allTags: PGNTags = {
+    Event: 'Quantum Chess',
+    Site: '?',
+    Date: formatDate(new Date()),
+    Round: '-',
+    White: '?',
+    Black: '?',
+    Result: resultToken(state),
+    Variant: state.setup.kind === 'chess960' ? 'Quantum Chess960' : 'Quantum',
+    ...startingTags(state),
+    MaxSuperpositions: String(state.rules.maxSuperpositions),
+    ...(state.rules.allowUnevenSplits && { UnevenSplits: 'Yes' }),
+    ...(formatRules(state.rules) && { Rules: formatRules(state.rules) }),
+    Seed: String(state.gameSeed >>> 0),
+    Termination: terminationTag(state),
+    ...tags
+  };
+
+  const orderedKeys = [
+    ...TAG_ORDER.filter(key => key in allTags),
+    ...Object.keys(allTags).filter(key => !TAG_ORDER.includes(key))
+  ];
+  const tagLines = orderedKeys.map(key => `[${key} "${allTags[key]!.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`);
+
+  // Move text tokens, wrapped at 80 columns like most PGN writers
+  const tokens: string[] = [];
+  state.moveHistory.forEach((move, i) => {
+    // Black's moves follow a comment, so they need their own "N..." number
+    tokens.push(i % 2 === 0 ? `${i / 2 + 1}.` : `${Math.floor(i / 2) + 1}...`);
+    tokens.push(formatMove(move), formatAnnotations(move));
+  });
+  if (state.flag) tokens.push(formatFlag(state.flag));
+  tokens.push(allTags.Result!);
+
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+
+  return `${tagLines.join('\n')}\n\n${lines.join('\n')}\n`;
+}
+
+// Move text patterns (the piece letter is informational only)
+const SPLIT_PATTERN = /^[KQRBNP]?([a-h][1-8])\^([a-h][1-8])([a-h][1-8])(?:\/(\d{1,2}))?$/;
+const MERGE_PATTERN = /^[KQRBNP]?([a-h][1-8])([a-h][1-8])\^([a-h][1-8])$/;
+const CLASSICAL_PATTERN = /^[KQRBNP]?([a-h][1-8])[-x]([a-h][1-8])(?:=([QRBN]))?[+#]?$/;
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+interface PGNMoveToken {
+  text: string;
+  comment: string;
+}
+
+// Split the movetext into moves, each with the comment that follows it.
+// Comments before the first move are the game's own.
+function tokenizeMovetext(movetext: string): { moves: PGNMoveToken[]; result: string; comment: string } {
+  const moves: PGNMoveToken[] = [];
+  let result = '*';
+  let comment = '';
+  const tokenPattern = /\{([^}]*)\}|;[^\n]*|\(|\)|\$\d+|\d+\.(?:\.\.)?|[^\s{}();]+/g;
+
+  for (const match of movetext.matchAll(tokenPattern)) {
+    const token = match[0];
+    if (match[1] !== undefined) {
+      const last = moves[moves.length - 1];
+      if (last) last.comment += ` ${match[1]}`;
+      else comment += ` ${match[1]}`;
+    } else if (token === '(' || token === ')') {
+      throw new Error('Invalid Quantum PGN: variations are not supported');
+    } else if (token.startsWith(';') || token.startsWith('$') || /^\d+\.(\.\.)?$/.test(token)) {
+      continue; // Rest-of-line comments, NAGs and move numbers carry no move data
+    } else if (RESULT_TOKENS.includes(token)) {
+      result = token;
+    } else {
+      // Allow "1.e2-e4" with no space after the move number
+      moves.push({ text: token.replace(/^\d+\.(\.\.)?/, ''), comment: '' });
+    }
+  }
+
+  return { moves, result, comment };
+}
+
+/**
+ * Parse a Quantum PGN and replay it into a game state.
+ * Each move is replayed with its recorded seed (or the one derived from
+ * the Seed tag), and recorded measurement outcomes must match the replay.
+ * Throws on malformed input or illegal moves.
+ */
+export function fromQuantumPGN(pgn: string, rng: RngFactory = mulberry32): { tags: PGNTags; state: QuantumGameState } {
+  const tags: PGNTags = {};
+  const movetextLines: string[] = [];
+
+  for (const line of pgn.split(/\r?\n/)) {
+    const tag = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]\s*$/.exec(line);
+    if (tag) {
+      tags[tag[1]!] = tag[2]!.replace(/\\(.)/g, '$1');
+    } else {
+      movetextLines.push(line);
+    }
+  }
+
+  const maxSuperpositions = tags.MaxSuperpositions ? Number(tags.MaxSuperpositions) : 2;
+  const gameSeed = tags.Seed ? Number(tags.Seed) : 0;
+  if (!Number.isInteger(maxSuperpositions) || maxSuperpositions < 1) {
+    throw new Error(`Invalid Quantum PGN: bad MaxSuperpositions "${tags.MaxSuperpositions}"`);
+  }
+  if (!Number.isInteger(gameSeed)) {
+    throw new Error(`Invalid Quantum PGN: bad Seed "${tags.Seed}"`);
+  }
+
+  const setup = tags.SetUp === '1' && tags.FEN ? { kind: 'custom' as const, position: tags.FEN } : STANDARD_SETUP;
+  let state = createGame(true, parseRules(tags, maxSuperpositions), gameSeed >>> 0, rng, setup);
+  const { moves, result, comment: gameComment } = tokenizeMovetext(movetextLines.join('\n'));
+
+  moves.forEach(({ text, comment }, i) => {
+    const seedMatch = /\[%seed (\d+)\]/.exec(comment);
+    const seed = seedMatch ? Number(seedMatch[1]) : undefined;
+
+    let split: RegExpExecArray | null;
+    let merge: RegExpExecArray | null;
+    let classical: RegExpExecArray | null;
+    let outcome: { success: boolean; newState: QuantumGameState; error?: string };
+
+    if ((split = SPLIT_PATTERN.exec(text))) {
+      const ratio = split[4] ? Number(split[4]) / 100 : undefined;
+      outcome = makeSplitMove(state, split[1] as Square, split[2] as Square, split[3] as Square, ratio, seed);
+    } else if ((merge = MERGE_PATTERN.exec(text))) {
+      outcome = makeMergeMove(state, merge[1] as Square, merge[2] as Square, merge[3] as Square, seed);
+    } else if ((classical = CLASSICAL_PATTERN.exec(text))) {
+      const promotion = classical[3]?.toLowerCase() as PieceSymbol | undefined;
+      outcome = makeMove(state, classical[1] as Square, classical[2] as Square, promotion, seed);
+    } else {
+      throw new Error(`Invalid Quantum PGN: cannot read move ${i + 1} "${text}"`);
+    }
+
+    if (!outcome.success) {
+      throw new Error(`Invalid Quantum PGN: move ${i + 1} "${text}" is illegal (${outcome.error})`);
+    }
+    state = outcome.newState;
+
+    // A recorded measurement must come out the same way on replay
+    const path = /\[%path (\S+) ([a-h][1-8]) \S+ (clear|blocked)\]/.exec(comment);
+    if (path) {
+      const replayed = state.moveHistory[state.moveHistory.length - 1]?.pathMeasurement;
+      if (!replayed || replayed.collapsedTo !== path[2] || replayed.blocked !== (path[3] === 'blocked')) {
+        throw new Error(`Invalid Quantum PGN: replay of move ${i + 1} "${text}" measured a different outcome`);
+      }
+    }
+    const observe = /\[%observe (\S+) ([a-h][1-8]) \S+\]/.exec(comment);
+    if (observe) {
+      const replayed = state.moveHistory[state.moveHistory.length - 1]?.attackMeasurement;
+      if (!replayed || replayed.pieceId !== observe[1] || replayed.collapsedTo !== observe[2]) {
+        throw new Error(`Invalid Quantum PGN: replay of move ${i + 1} "${text}" measured a different outcome`);
+      }
+    }
+    const collapse = /\[%collapse (\S+) ([a-h][1-8]) \S+ (hit|miss)\]/.exec(comment);
+    if (collapse) {
+      const replayed = state.moveHistory[state.moveHistory.length - 1]?.collapseResult;
+      if (!replayed || replayed.collapsedTo !== collapse[2] || replayed.wasCapture !== (collapse[3] === 'hit')) {
+        throw new Error(`Invalid Quantum PGN: replay of move ${i + 1} "${text}" measured a different outcome`);
+      }
+    }
+    const check = /\[%check (white|black) ([01]) \S+\]/.exec(comment);
+    if (check) {
+      const replayed = state.moveHistory[state.moveHistory.length - 1]?.checkMeasurement;
+      if (!replayed || replayed.player !== check[1] || replayed.inCheck !== (check[2] === '1')) {
+        throw new Error(`Invalid Quantum PGN: replay of move ${i + 1} "${text}" measured a different outcome`);
+      }
+    }
+  });
+
+  // A flag fall follows the last move, or stands alone when no move was made
+  const flagComment = moves.length > 0 ? moves[moves.length - 1]!.comment : gameComment;
+  const flag = /\[%flag (white|black) ([01]) \S+ (\d+)\]/.exec(flagComment);
+  if (flag) {
+    state = flagFall(state, flag[1] as Player, Number(flag[3]));
+    if (state.flag?.matingMaterial !== (flag[2] === '1')) {
+      throw new Error('Invalid Quantum PGN: replay of the flag fall measured a different outcome');
+    }
+  }
+
+  // Results the moves don't explain (resignation, time, agreement, abort)
+  const termination = tags.Termination?.toLowerCase();
+  if (state.gameStatus === 'active' && result === '*' && termination === 'abandoned') {
+    state = { ...state, gameStatus: 'aborted' };
+  } else if (state.gameStatus === 'active' && result !== '*') {
+    const gameStatus: GameStatus = result === '1-0' ? 'white_wins' : result === '0-1' ? 'black_wins' : 'draw_agreement';
+    state = {
+      ...state,
+      gameStatus,
+      result: result === '1-0' ? 'white_wins' : result === '0-1' ? 'black_wins' : 'draw',
+      resultReason: termination === 'time forfeit' ? 'timeout'
+        : termination === 'rules infraction' ? 'protocol_violation'
+        : gameStatus === 'draw_agreement' ? 'agreement' : 'resignation'
+    };
+  }
+
+  return { tags, state };
+}
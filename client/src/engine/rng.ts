@@ -0,0 +1,47 @@
+/**
+ * Seeded RNG for deterministic collapse (for P2P sync)
+ *
+ * Every move gets its own seed derived from the room's game seed and the
+ * move index, so both peers, replays and tests roll identical measurement
+ * outcomes without sharing any global state.
+ */
+
+export interface RandomSource {
+  next(): number; // Uniform float in [0, 1)
+}
+
+// Creates a fresh random source from a 32-bit seed
+export type RngFactory = (seed: number) => RandomSource;
+
+/**
+ * Mulberry32 - small, fast 32-bit generator with good distribution
+ */
+export const mulberry32: RngFactory = (seed: number) => {
+  let a = seed >>> 0;
+  return {
+    next() {
+      a = (a + 0x6D2B79F5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+  };
+};
+
+/**
+ * Mix two 32-bit values into a well-spread 32-bit seed (murmur3 finalizer)
+ */
+export function mixSeed(a: number, b: number): number {
+  let h = (a ^ Math.imul(b + 1, 0x9E3779B1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Seed for the measurements of one move: game seed + move index
+ */
+export function deriveMoveSeed(gameSeed: number, moveIndex: number): number {
+  return mixSeed(gameSeed >>> 0, moveIndex);
+}
@@ -0,0 +1,75 @@
+/**
+ * Quantum rule variants
+ *
+ * Every rule switch for one game lives in a QuantumRuleset. Both peers
+ * must play with the same one - online rooms store it on the server.
+ */
+
+export interface QuantumRuleset {
+  maxSuperpositions: number; // Max pieces per player in superposition
+  allowUnevenSplits: boolean; // Splits other than 50/50 (e.g. 25/75)
+  pawnSplits: boolean; // Pawns may split
+  kingSplits: boolean; // Kings may split
+  splitCaptures: boolean; // A split may land on an enemy piece - captured only in that reality
+  measurement: 'capture' | 'attack'; // 'attack': moving to attack a superposed enemy measures it
+  exclusion: boolean; // Moving onto a square your own piece only maybe holds measures it instead of being illegal
+}
+
+export type RulesetVariant = 'classic' | 'open' | 'entangled' | 'observer';
+
+export const DEFAULT_RULESET: QuantumRuleset = {
+  maxSuperpositions: 2,
+  allowUnevenSplits: false,
+  pawnSplits: false,
+  kingSplits: false,
+  splitCaptures: false,
+  measurement: 'capture',
+  exclusion: false
+};
+
+// Rule switches of each named preset; superposition limit and split ratios are picked separately
+export const RULESET_PRESETS: Record<RulesetVariant, {
+  label: string;
+  description: string;
+  rules: Omit<QuantumRuleset, 'maxSuperpositions' | 'allowUnevenSplits'>;
+}> = {
+  classic: {
+    label: '⚛️ Classic',
+    description: 'Queens, rooks, bishops and knights split; only captures measure',
+    rules: { pawnSplits: false, kingSplits: false, splitCaptures: false, measurement: 'capture', exclusion: false }
+  },
+  open: {
+    label: '🌌 Open',
+    description: 'Every piece can split - pawns and kings too',
+    rules: { pawnSplits: true, kingSplits: true, splitCaptures: false, measurement: 'capture', exclusion: false }
+  },
+  entangled: {
+    label: '🔗 Entangled',
+    description: 'Splits can capture, and moving onto a maybe-occupied own square measures it',
+    rules: { pawnSplits: false, kingSplits: false, splitCaptures: true, measurement: 'capture', exclusion: true }
+  },
+  observer: {
+    label: '👁️ Observer',
+    description: 'Attacking a superposed piece measures it - no hiding in plain sight',
+    rules: { pawnSplits: false, kingSplits: false, splitCaptures: false, measurement: 'attack', exclusion: false }
+  }
+};
+
+// Name of the preset whose switches match, or null for a custom mix
+export function rulesetVariant(rules: QuantumRuleset): RulesetVariant | null {
+  for (const [variant, preset] of Object.entries(RULESET_PRESETS) as Array<[RulesetVariant, typeof RULESET_PRESETS.classic]>) {
+    const switches = Object.keys(preset.rules) as Array<keyof typeof preset.rules>;
+    if (switches.every(key => preset.rules[key] === rules[key])) return variant;
+  }
+  return null;
+}
+
+// Full ruleset for a preset - unknown names (older servers) fall back to classic
+export function rulesForVariant(
+  variant: string,
+  maxSuperpositions: number = DEFAULT_RULESET.maxSuperpositions,
+  allowUnevenSplits: boolean = DEFAULT_RULESET.allowUnevenSplits
+): QuantumRuleset {
+  const preset = RULESET_PRESETS[variant as RulesetVariant] ?? RULESET_PRESETS.classic;
+  return { maxSuperpositions, allowUnevenSplits, ...preset.rules };
+}
@@ -0,0 +1,80 @@
+/**
+ * Starting setups
+ *
+ * A game starts from the standard position, a Chess960 (Fischer random)
+ * position drawn from the shared game seed, or a custom FEN/QFEN.
+ * Both peers build the same start from the setup and the room seed.
+ */
+
+export type StartingSetup =
+  | { kind: 'standard' }
+  | { kind: 'chess960' } // Position number comes from the game seed
+  | { kind: 'custom'; position: string }; // FEN or QFEN
+
+export const STANDARD_SETUP: StartingSetup = { kind: 'standard' };
+
+// Knight pairs over the five squares left after bishops and queen (Scharnagl's table)
+const KNIGHT_PLACEMENTS: Array<[number, number]> = [
+  [0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]
+];
+
+// Chess960 position number 0-959 for a game seed (518 is the standard setup)
+export function chess960Number(gameSeed: number): number {
+  return (gameSeed >>> 0) % 960;
+}
+
+/**
+ * Back rank of a Chess960 position in Scharnagl numbering,
+ * e.g. 518 -> 'RNBQKBNR'
+ */
+export function chess960BackRank(positionNumber: number): string {
+  const rank: Array<string | undefined> = new Array(8).fill(undefined);
+  let n = positionNumber;
+
+  rank[(n % 4) * 2 + 1] = 'B'; // Light-squared bishop: b, d, f or h
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = 'B'; // Dark-squared bishop: a, c, e or g
+  n = Math.floor(n / 4);
+
+  const empty = () => rank.flatMap((piece, file) => (piece ? [] : [file]));
+  rank[empty()[n % 6]!] = 'Q';
+  n = Math.floor(n / 6);
+
+  const [first, second] = KNIGHT_PLACEMENTS[n]!;
+  const knightFiles = empty();
+  rank[knightFiles[first]!] = 'N';
+  rank[knightFiles[second]!] = 'N';
+
+  // The king always stands between the two rooks
+  const [rookA, king, rookB] = empty() as [number, number, number];
+  rank[rookA] = 'R';
+  rank[king] = 'K';
+  rank[rookB] = 'R';
+
+  return rank.join('');
+}
+
+/**
+ * FEN of a Chess960 position. Castling rights are written Shredder-style
+ * as rook files (e.g. 'HAha'), since the rooks can start on any file.
+ */
+export function chess960Fen(positionNumber: number): string {
+  const backRank = chess960BackRank(positionNumber);
+  const rookFiles = [...backRank].flatMap((piece, file) => (piece === 'R' ? ['abcdefgh'[file]!] : [])).reverse();
+  const castling = rookFiles.join('').toUpperCase() + rookFiles.join('');
+  return `${backRank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${backRank} w ${castling} - 0 1`;
+}
+
+/**
+ * QFEN a game with this setup starts from, or null for the standard start.
+ * A plain FEN gets an empty quantum part and the turn (ply) its side to
+ * move and move number give.
+ */
+export function startingQFEN(setup: StartingSetup, gameSeed: number): string | null {
+  if (setup.kind === 'standard') return null;
+  if (setup.kind === 'chess960') return `${chess960Fen(chess960Number(gameSeed))} | 1 | -`;
+  if (setup.position.includes('|')) return setup.position;
+  const fields = setup.position.trim().split(/\s+/);
+  const turnNumber = 2 * (Number(fields[5] ?? 1) - 1) + (fields[1] === 'b' ? 2 : 1);
+  return `${fields.join(' ')} | ${turnNumber} | -`;
+}
@@ -2,3 +2,6 @@ export { useQuantumGame } from './useQuantumGame';
 export { useAnimations } from './useAnimations';
 export { useToast } from './useToast';
 
+export { useAnalysis } from './useAnalysis';
+
+export { useSpectator } from './useSpectator';
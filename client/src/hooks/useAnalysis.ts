@@ -0,0 +1,83 @@
+/**
+ * Position Analysis Hook
+ * Static evaluation right away, plus a deeper search and best move
+ * from the AI worker
+ */
+
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { hashState, serializeState, type QuantumGameState, type QuantumMove } from '../engine/ChessEngine';
+import { evaluatePosition, type AIRequest, type AIResponse, type PositionEvaluation } from '../engine/ai';
+
+export interface PositionAnalysis {
+  evaluation: PositionEvaluation; // Static terms for the position
+  score: number; // Search score once ready, static score until then (white's view)
+  bestMove: QuantumMove | null;
+  isAnalyzing: boolean;
+}
+
+// Wait this long after the position last changed before searching it
+const SEARCH_DELAY_MS = 300;
+
+// Returns null when disabled, so callers can hide the analysis entirely
+export function useAnalysis(state: QuantumGameState | null, enabled: boolean): PositionAnalysis | null {
+  const [result, setResult] = useState<{ key: string; move: QuantumMove | null; score: number } | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  const searchingRef = useRef<number | null>(null); // Request the worker is busy with
+
+  const key = useMemo(() => (state ? hashState(state) : null), [state]);
+  const evaluation = useMemo(() => (state ? evaluatePosition(state) : null), [state]);
+
+  // Search every new position in the worker, once the board has settled
+  // (stepping through history shouldn't start a search per step)
+  useEffect(() => {
+    if (!enabled || !state || !key) return;
+
+    const timeout = setTimeout(() => {
+      // A search still running is for an old position - the worker can't
+      // stop mid-search, so replace it rather than queue behind it
+      if (searchingRef.current !== null) {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+      }
+      workerRef.current ??= new Worker(new URL('../engine/ai.worker.ts', import.meta.url), { type: 'module' });
+      const worker = workerRef.current;
+      const requestId = ++requestIdRef.current;
+      searchingRef.current = requestId;
+
+      worker.onmessage = (event: MessageEvent<AIResponse>) => {
+        if (event.data.requestId !== requestId) return;
+        searchingRef.current = null;
+        setResult({ key, move: event.data.move, score: event.data.score });
+      };
+
+      const request: AIRequest = { requestId, state: serializeState(state), level: 'hard' };
+      worker.postMessage(request);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [enabled, state, key]);
+
+  // Stop searching when analysis is switched off or the component goes away
+  useEffect(() => {
+    if (enabled) return;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    searchingRef.current = null;
+  }, [enabled]);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+    };
+  }, []);
+
+  if (!enabled || !evaluation) return null;
+
+  const ready = result?.key === key;
+  return {
+    evaluation,
+    score: ready ? result.score : evaluation.score,
+    bestMove: ready ? result.move : null,
+    isAnalyzing: !ready
+  };
+}
@@ -9,30 +9,76 @@ import {
   createGame,
   makeMove,
   makeSplitMove,
+  makeMergeMove,
+  getSplitMovesFromSquare,
   isGameOver,
   setQuantumMode as setEngineQuantumMode,
+  hashState,
+  flagFall,
+  serializeState,
+  replayHistory,
+  deserializeState,
+  isSerializedGameState,
   type QuantumGameState,
+  type SerializedGameState,
+  type QuantumMove,
   type Player,
   type CollapseResult
 } from '../engine/ChessEngine';
-import { WebRTCConnection, type ConnectionState } from '../networking';
+import { winProbability, type AILevel, type AIRequest, type AIResponse } from '../engine/ai';
+import { fromQuantumPGN } from '../engine/pgn';
+import { mixSeed, mulberry32 } from '../engine/rng';
+import { DEFAULT_RULESET, rulesForVariant, rulesetVariant, type QuantumRuleset } from '../engine/rulesets';
+import { STANDARD_SETUP, type StartingSetup } from '../engine/setups';
+import {
+  WebRTCConnection,
+  createNonce,
+  commitNonce,
+  verifyReveal,
+  combineNonces,
+  updateClockSync,
+  lagAllowance,
+  transitTime,
+  PING_INTERVAL_MS,
+  cleanChatText,
+  takeChatSlot,
+  type ClockSync,
+  type ConnectionState
+} from '../networking';
+import { saveGame, loadSavedGame, clearSavedGame, type SavedGame } from '../storage';
 
 export interface GameMessage {
-  type: 'move' | 'split' | 'fen' | 'resign' | 'rematch_request' | 'rematch_accept' | 'rematch_decline' | 'time_sync';
+  type: 'move' | 'split' | 'merge' | 'resign' | 'rematch_request' | 'rematch_accept' | 'rematch_decline'
+    | 'rng_commit' | 'rng_reveal' | 'state_hash' | 'sync_request' | 'sync_response' | 'ping' | 'pong' | 'flag'
+    | 'draw_offer' | 'draw_accept' | 'draw_decline' | 'takeback_request' | 'takeback_accept' | 'takeback_decline' | 'abort'
+    | 'resume_request' | 'reconnect' | 'chat';
   from?: string;
+  from2?: string; // For merge moves
   to?: string;
   to2?: string; // For split moves
+  ratio?: number; // Uneven split: share going to 'to'
   promotion?: string;
-  collapseSeed?: number;
-  fen?: string;
-  color?: 'white' | 'black'; // For resign message
-  whiteTimeMs?: number; // Time remaining in ms
-  blackTimeMs?: number; // Time remaining in ms
+  color?: 'white' | 'black'; // For resign and flag messages; running clock (reconnect)
+  whiteTimeMs?: number; // Time remaining in ms (flag, reconnect, and sync_response to a resumed peer)
+  blackTimeMs?: number; // Time remaining in ms (flag, reconnect, and sync_response to a resumed peer)
+  clockMs?: number; // Mover's time left when it moved, before increment
+  sentAt?: number; // Sender's Date.now() (moves, ping and pong)
+  peerTime?: number; // Answering peer's Date.now() (pong)
+  commitment?: string; // SHA-256 of a secret nonce (moves, flag and rng_commit)
+  nonce?: string; // Revealed nonce (rng_reveal)
+  stateHash?: string; // hashState() after a move (state_hash), or of the host's state (reconnect)
+  moveCount?: number; // Moves applied when stateHash was taken; takeback: moves to keep
+  state?: SerializedGameState; // Full state of the host, or of the peer that stayed (sync_response)
+  text?: string; // Chat message (chat)
 }
 
+// What the clocks do while a dropped peer is reconnecting
+export type DisconnectClockPolicy = 'pause' | 'run';
+
 export interface TimeControl {
   minutes: number;
   increment: number;
+  onDisconnect?: DisconnectClockPolicy; // Online games only; 'pause' when missing
 }
 
 export interface TimerState {
@@ -42,10 +88,138 @@ export interface TimerState {
   lastTickTime: number; // timestamp of last timer tick
 }
 
+// What the host streams to spectators after every change
+export interface SpectatorSnapshot {
+  state: SerializedGameState;
+  whiteTimeMs: number;
+  blackTimeMs: number;
+  runningClock: Player | null; // Clock counting down when the snapshot was taken
+  timeControl: TimeControl;
+  sentAt: number; // Host's Date.now()
+}
+
+export interface ChatMessage {
+  id: number;
+  from: 'me' | 'opponent';
+  text: string;
+  at: number; // Date.now() when sent or received
+}
+
+// Chat messages kept for display
+const MAX_CHAT_MESSAGES = 100;
+
+// Computer opponent for a game on this device
+export interface AIOpponent {
+  level: AILevel;
+  color: Player; // Colour the computer plays
+}
+
 interface UseChessGameOptions {
   serverUrl: string;
 }
 
+// How long a peer may take to commit or reveal before it forfeits
+const EXCHANGE_TIMEOUT_MS = 15000;
+
+// A move (or the host's flag call) waiting for both peers' nonces before it can be applied
+interface PendingExchange {
+  role: 'mover' | 'responder';
+  move: GameMessage;
+  ownNonce: string;
+  peerCommitment?: string;
+  peerNonce?: string;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+// The message a peer would send for an engine move
+function toMoveMessage(move: QuantumMove): GameMessage {
+  return {
+    type: move.type === 'classical' ? 'move' : move.type,
+    from: move.from,
+    from2: move.from2,
+    to: move.to,
+    to2: move.to2,
+    ratio: move.ratio,
+    promotion: move.promotion
+  };
+}
+
+// A clock's time at 'now', counting the time since its last tick
+function remainingAt(clock: TimerState, color: Player, now: number): number {
+  const timeMs = color === 'white' ? clock.whiteTimeMs : clock.blackTimeMs;
+  const running = clock.activeColor === color && clock.lastTickTime > 0;
+  return timeMs - (running ? now - clock.lastTickTime : 0);
+}
+
+// Clocks after 'movingColor' moved at 'now' with 'remainingMs' left: add the
+// increment and start the other clock. White's first move only starts the clocks.
+function clockAfterMove(
+  clock: TimerState,
+  movingColor: Player,
+  remainingMs: number,
+  incrementMs: number,
+  now: number
+): TimerState {
+  const next: Player = movingColor === 'white' ? 'black' : 'white';
+  if (clock.activeColor === null) {
+    return { ...clock, activeColor: next, lastTickTime: now };
+  }
+  return {
+    whiteTimeMs: movingColor === 'white' ? remainingMs + incrementMs : clock.whiteTimeMs,
+    blackTimeMs: movingColor === 'black' ? remainingMs + incrementMs : clock.blackTimeMs,
+    activeColor: next,
+    lastTickTime: now
+  };
+}
+
+// Online clocks run while the peers are connected - and while a dropped
+// peer is reconnecting, if the room's policy keeps them running
+function clocksRunning(isLocalGame: boolean, connectionState: ConnectionState, policy: DisconnectClockPolicy = 'pause'): boolean {
+  return isLocalGame || connectionState === 'connected' || (connectionState === 'reconnecting' && policy === 'run');
+}
+
+// Game ended by agreement
+function drawAgreed(state: QuantumGameState): QuantumGameState {
+  return { ...state, gameStatus: 'draw_agreement', result: 'draw', resultReason: 'agreement' };
+}
+
+// Moves to keep when 'requester' takes back their last move (and the reply, if any)
+function takebackTarget(state: QuantumGameState, requester: Player): number {
+  return state.moveHistory.length - (state.currentPlayer === requester ? 2 : 1);
+}
+
+// Game state from outside (a peer's message, a saved game), or null if it isn't one
+function readState(data: unknown): QuantumGameState | null {
+  if (!isSerializedGameState(data)) return null;
+  try {
+    return deserializeState(data);
+  } catch {
+    return null;
+  }
+}
+
+// Apply a move, split or merge message with the agreed collapse seed
+function applyMoveMessage(
+  state: QuantumGameState,
+  message: GameMessage,
+  seed?: number
+): { success: boolean; newState: QuantumGameState; error?: string; collapseResult?: CollapseResult } {
+  switch (message.type) {
+    case 'split':
+      return makeSplitMove(state, message.from as Square, message.to as Square, message.to2 as Square, message.ratio, seed);
+    case 'merge':
+      return makeMergeMove(state, message.from as Square, message.from2 as Square, message.to as Square, seed);
+    default:
+      return makeMove(
+        state,
+        message.from as Square,
+        message.to as Square,
+        message.promotion as PieceSymbol | undefined,
+        seed
+      );
+  }
+}
+
 export function useChessGame({ serverUrl }: UseChessGameOptions) {
   const [gameState, setGameState] = useState<QuantumGameState | null>(null);
   const [playerColor, setPlayerColor] = useState<Player>('white');
@@ -56,13 +230,59 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
   const [splitMode, setSplitMode] = useState(false);
   const [splitFrom, setSplitFrom] = useState<Square | null>(null);
   const [splitTo1, setSplitTo1] = useState<Square | null>(null);
+  const [splitRatio, setSplitRatio] = useState(0.5); // Share going to the first target
+  const [mergeMode, setMergeMode] = useState(false);
+  const [mergeFrom1, setMergeFrom1] = useState<Square | null>(null);
+  const [mergeFrom2, setMergeFrom2] = useState<Square | null>(null);
 
   // Rematch state
   const [rematchRequested, setRematchRequested] = useState(false); // We sent a request
   const [rematchReceived, setRematchReceived] = useState(false);   // We received a request
 
+  // Draw offers and takeback requests - ours, and the opponent's waiting for an answer
+  const [drawOffered, setDrawOffered] = useState(false);
+  const [drawOfferReceived, setDrawOfferReceived] = useState(false);
+  const [takebackRequested, setTakebackRequested] = useState<number | null>(null); // Moves to keep
+  const [takebackReceived, setTakebackReceived] = useState<number | null>(null);
+
   // Peer disconnected state (game ends when peer disconnects)
   const [peerDisconnected, setPeerDisconnected] = useState(false);
+  // Connection dropped - the peer has a grace period to come back
+  const [peerReconnecting, setPeerReconnecting] = useState(false);
+
+  // People watching the game (spectators)
+  const [spectatorCount, setSpectatorCount] = useState(0);
+
+  // Chat with the opponent - rate limited both ways, and the opponent can be muted
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatMuted, setChatMuted] = useState(false);
+  const chatMutedRef = useRef(chatMuted);
+  const chatIdRef = useRef(0);
+  const sentChatRef = useRef<number[]>([]); // Times of our recent messages
+  const receivedChatRef = useRef<number[]>([]); // Times of the opponent's recent messages
+  useEffect(() => {
+    chatMutedRef.current = chatMuted;
+  }, [chatMuted]);
+
+  const addChatMessage = useCallback((from: ChatMessage['from'], text: string) => {
+    const message: ChatMessage = { id: chatIdRef.current++, from, text, at: Date.now() };
+    setChatMessages(prev => [...prev.slice(1 - MAX_CHAT_MESSAGES), message]);
+  }, []);
+
+  // Game left unfinished by a crash or reload, offered for resuming
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(loadSavedGame);
+  // We rejoined the room of a saved game and wait for the peer's state
+  const resumingRef = useRef(false);
+  // Server's token for our slot in the room - saved so a resume can reclaim it
+  const slotTokenRef = useRef<string | null>(null);
+
+  // Hot-seat game: both colours on this device, no connection at all
+  const [isLocalGame, setIsLocalGame] = useState(false);
+
+  // Computer opponent - a local game where one colour is played by the AI worker
+  const [aiOpponent, setAiOpponent] = useState<AIOpponent | null>(null);
+  const aiWorkerRef = useRef<Worker | null>(null);
+  const aiRequestIdRef = useRef(0);
 
   // Timer state
   const [timeControl, setTimeControl] = useState<TimeControl>({ minutes: 5, increment: 0 });
@@ -75,8 +295,214 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
   const [flaggedPlayer, setFlaggedPlayer] = useState<'white' | 'black' | null>(null);
   const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  // Latest clocks for message handlers, which must not re-create the connection
+  const timerStateRef = useRef(timerState);
+  const flaggedPlayerRef = useRef(flaggedPlayer);
+  const incrementMsRef = useRef(0);
+  const clockPolicyRef = useRef<DisconnectClockPolicy>('pause');
+  const timeControlRef = useRef(timeControl);
+  useEffect(() => {
+    timerStateRef.current = timerState;
+    flaggedPlayerRef.current = flaggedPlayer;
+    timeControlRef.current = timeControl;
+  }, [timerState, flaggedPlayer, timeControl]);
+
+  // Latest position and open offers for message handlers, which reply and
+  // check the peer's answers outside state updaters
+  const gameStateRef = useRef(gameState);
+  const playerColorRef = useRef(playerColor);
+  const drawOfferedRef = useRef(drawOffered);
+  const takebackRequestedRef = useRef(takebackRequested);
+  useEffect(() => {
+    gameStateRef.current = gameState;
+    playerColorRef.current = playerColor;
+    drawOfferedRef.current = drawOffered;
+    takebackRequestedRef.current = takebackRequested;
+  }, [gameState, playerColor, drawOffered, takebackRequested]);
+
+  // Round-trip time and clock offset to the peer, from ping/pong
+  const clockSyncRef = useRef<ClockSync | null>(null);
+
   const connectionRef = useRef<WebRTCConnection | null>(null);
 
+  // Commit-reveal exchange for the move currently waiting on its collapse seed
+  const pendingExchangeRef = useRef<PendingExchange | null>(null);
+  const [awaitingRandomness, setAwaitingRandomness] = useState(false);
+
+  // The host's state wins when the peers' states disagree
+  const isHostRef = useRef(false);
+
+  // Peer's hash for a move we may not have applied yet
+  const peerHashRef = useRef<{ moveCount: number; stateHash: string } | null>(null);
+
+  // Compare our state with the peer's hash once both are at the same move
+  const checkPeerHash = useCallback((state: QuantumGameState) => {
+    const peerHash = peerHashRef.current;
+    if (!peerHash || peerHash.moveCount !== state.moveHistory.length) return;
+    peerHashRef.current = null;
+    if (hashState(state) === peerHash.stateHash) return;
+
+    console.error('[Game] State desync detected at move', peerHash.moveCount);
+    setError('Game state desync detected - resyncing with host');
+    // Guest asks for the host's state; the host just waits for the request
+    if (!isHostRef.current) {
+      connectionRef.current?.send({ type: 'sync_request' });
+    }
+  }, []);
+
+  // Drop the pending exchange (if any) and return it
+  const takeExchange = useCallback((): PendingExchange | null => {
+    const pending = pendingExchangeRef.current;
+    if (pending) clearTimeout(pending.timeout);
+    pendingExchangeRef.current = null;
+    setAwaitingRandomness(false);
+    return pending;
+  }, []);
+
+  // Peer broke the move protocol (illegal move, bad or missing reveal) - it forfeits
+  const failExchange = useCallback((reason: string) => {
+    takeExchange();
+    console.error('[Game] Randomness exchange failed:', reason);
+    setError(reason);
+    const peerColor: Player = playerColorRef.current === 'white' ? 'black' : 'white';
+    setGameState(prev => {
+      if (!prev || isGameOver(prev)) return prev;
+      const winnerStatus = peerColor === 'white' ? 'black_wins' : 'white_wins';
+      return {
+        ...prev,
+        gameStatus: winnerStatus,
+        result: winnerStatus,
+        resultReason: 'protocol_violation'
+      };
+    });
+  }, [takeExchange]);
+
+  // A move answers open offers: the side that moved has declined the other's
+  // draw offer, and takeback requests no longer match the position
+  const clearOffers = useCallback((mover?: 'us' | 'peer') => {
+    if (mover !== 'peer') setDrawOfferReceived(false);
+    if (mover !== 'us') setDrawOffered(false);
+    setTakebackRequested(null);
+    setTakebackReceived(null);
+  }, []);
+
+  // Both nonces are revealed - derive the seed and apply the pending move
+  const completeExchange = useCallback(() => {
+    const pending = pendingExchangeRef.current;
+    const prev = gameStateRef.current;
+    if (!pending?.peerNonce || !prev) return;
+    const peerNonce = pending.peerNonce;
+
+    const moverNonce = pending.role === 'mover' ? pending.ownNonce : peerNonce;
+    const responderNonce = pending.role === 'mover' ? peerNonce : pending.ownNonce;
+
+    const seed = combineNonces(moverNonce, responderNonce, prev.moveHistory.length);
+    if (pending.move.type === 'flag') {
+      // The flag fall's material measurement uses the shared seed too
+      takeExchange();
+      const flagged = flagFall(prev, pending.move.color!, seed);
+      gameStateRef.current = flagged;
+      setGameState(flagged);
+      return;
+    }
+    const result = applyMoveMessage(prev, pending.move, seed);
+    if (!result.success) {
+      // Our own moves are checked before they are sent - this one is the peer's
+      if (pending.role === 'responder') {
+        failExchange(`Opponent played an illegal move (${result.error})`);
+      } else {
+        takeExchange();
+        console.error('[Game] Invalid move after randomness exchange:', result.error);
+      }
+      return;
+    }
+    takeExchange();
+    clearOffers(pending.role === 'mover' ? 'us' : 'peer');
+
+    // Messages handled before the next render see the new position
+    gameStateRef.current = result.newState;
+    setGameState(result.newState);
+    if (result.collapseResult) setLastCollapse(result.collapseResult);
+    // Let the peer verify we ended up in the same state
+    connectionRef.current?.send({
+      type: 'state_hash',
+      stateHash: hashState(result.newState),
+      moveCount: result.newState.moveHistory.length
+    });
+    checkPeerHash(result.newState);
+  }, [takeExchange, failExchange, checkPeerHash, clearOffers]);
+
+  // Return the game to the position after 'moveCount' moves. The history is
+  // replayed with its recorded seeds, so splits and collapses unwind exactly
+  // and the next move's randomness starts from the earlier position.
+  const applyTakeback = useCallback((moveCount: number) => {
+    const prev = gameStateRef.current;
+    if (!prev || isGameOver(prev) || moveCount < 0 || moveCount >= prev.moveHistory.length) return;
+    takeExchange();
+    peerHashRef.current = null;
+    const replayed = replayHistory(prev, moveCount);
+    const now = Date.now();
+    gameStateRef.current = replayed;
+    setGameState(replayed);
+    setTimerState(clock => ({ ...clock, activeColor: moveCount === 0 ? null : replayed.currentPlayer, lastTickTime: now }));
+  }, [takeExchange]);
+
+  // Pick our secret nonce for a move and return the commitment to send
+  const startExchange = useCallback(async (
+    role: PendingExchange['role'],
+    move: GameMessage,
+    peerCommitment?: string
+  ): Promise<string> => {
+    const ownNonce = createNonce();
+    const commitment = await commitNonce(ownNonce);
+    // Only this exchange's own timer may end it
+    const exchange: PendingExchange = {
+      role, move, ownNonce, peerCommitment,
+      timeout: setTimeout(() => {
+        if (pendingExchangeRef.current === exchange) {
+          failExchange('Opponent did not complete the randomness exchange in time');
+        }
+      }, EXCHANGE_TIMEOUT_MS)
+    };
+    if (pendingExchangeRef.current) clearTimeout(pendingExchangeRef.current.timeout);
+    pendingExchangeRef.current = exchange;
+    setAwaitingRandomness(true);
+    return commitment;
+  }, [failExchange]);
+
+  // Opponent's move arrived: take their reported time (never more than we
+  // counted down plus the move's transit time) and start our clock now.
+  // Returns false if the host, as referee, finds the mover out of time.
+  const receiveMoveClock = useCallback((message: GameMessage): boolean => {
+    const now = Date.now();
+    const clock = timerStateRef.current;
+    const mover: Player = clock.activeColor ?? 'white';
+    const counted = remainingAt(clock, mover, now) + transitTime(clockSyncRef.current, message.sentAt, now);
+    const remainingMs = Math.min(message.clockMs ?? counted, counted);
+
+    if (clock.activeColor !== null && remainingMs <= 0 && isHostRef.current) {
+      setFlaggedPlayer(mover);
+      return false;
+    }
+    setTimerState(prev => clockAfterMove(prev, mover, remainingMs, incrementMsRef.current, now));
+    return true;
+  }, []);
+
+  // Initialize timer with time control settings
+  const initializeTimer = useCallback((minutes: number, increment: number, onDisconnect: DisconnectClockPolicy = 'pause') => {
+    const initialTimeMs = minutes * 60 * 1000;
+    setTimeControl({ minutes, increment, onDisconnect });
+    incrementMsRef.current = increment * 1000;
+    clockPolicyRef.current = onDisconnect;
+    setTimerState({
+      whiteTimeMs: initialTimeMs,
+      blackTimeMs: initialTimeMs,
+      activeColor: null, // Timer starts after white's first move
+      lastTickTime: 0
+    });
+    setFlaggedPlayer(null);
+  }, []);
+
   // Handle incoming P2P messages
   const handleMessage = useCallback((data: unknown) => {
     const message = data as GameMessage;
@@ -84,58 +510,138 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
 
     switch (message.type) {
       case 'move':
-        if (message.from && message.to) {
-          // Get current state to compute result outside of setState
-          setGameState(prev => {
-            if (!prev) return prev;
-            const result = makeMove(
-              prev,
-              message.from as Square,
-              message.to as Square,
-              message.promotion as PieceSymbol | undefined,
-              message.collapseSeed
-            );
-            if (!result.success) {
-              console.error('[Game] Invalid move from peer:', result.error);
-              return prev;
-            }
-            // Set collapse result outside setState to avoid batching issues
-            if (result.collapseResult) {
-              setTimeout(() => setLastCollapse(result.collapseResult!), 0);
-            }
-            return result.newState;
-          });
+      case 'split':
+      case 'merge': {
+        // Opponent moved and committed to its nonce - commit to ours
+        if (!message.commitment) {
+          console.error('[Game] Move from peer without randomness commitment');
+          break;
+        }
+        // Only on the peer's turn, and one move at a time
+        const state = gameStateRef.current;
+        const peerColor: Player = playerColorRef.current === 'white' ? 'black' : 'white';
+        if (!state || isGameOver(state) || state.currentPlayer !== peerColor || pendingExchangeRef.current) {
+          console.warn('[Game] Ignoring move from peer out of turn');
+          break;
         }
+        // Legal whatever the seed turns out to be - check before the clocks switch
+        if (!applyMoveMessage(state, message).success) {
+          failExchange('Opponent played an illegal move');
+          break;
+        }
+        // The game was already decided on time, or the move came too late
+        if (flaggedPlayerRef.current || !receiveMoveClock(message)) break;
+        startExchange('responder', message, message.commitment).then(commitment => {
+          connectionRef.current?.send({ type: 'rng_commit', commitment });
+        });
         break;
+      }
 
-      case 'split':
-        if (message.from && message.to && message.to2) {
-          setGameState(prev => {
-            if (!prev) return prev;
-            const result = makeSplitMove(
-              prev,
-              message.from as Square,
-              message.to as Square,
-              message.to2 as Square
-            );
-            if (!result.success) {
-              console.error('[Game] Invalid split from peer:', result.error);
-              return prev;
-            }
-            return result.newState;
-          });
+      case 'rng_commit': {
+        // Both commitments are known - reveal our nonce
+        const pending = pendingExchangeRef.current;
+        if (pending?.role === 'mover' && message.commitment) {
+          pending.peerCommitment = message.commitment;
+          connectionRef.current?.send({ type: 'rng_reveal', nonce: pending.ownNonce });
         }
         break;
+      }
 
-      case 'fen':
-        setGameState(prev => {
-          if (!prev) return prev;
-          if (prev.chess.fen() !== message.fen) {
-            console.warn('[Game] FEN mismatch (expected with quantum moves)');
+      case 'rng_reveal': {
+        const pending = pendingExchangeRef.current;
+        if (!pending?.peerCommitment || !message.nonce) break;
+        const nonce = message.nonce;
+        verifyReveal(nonce, pending.peerCommitment).then(valid => {
+          if (pendingExchangeRef.current !== pending) return;
+          if (!valid) {
+            failExchange('Opponent revealed a value that does not match its commitment');
+            return;
+          }
+          pending.peerNonce = nonce;
+          if (pending.role === 'responder') {
+            connectionRef.current?.send({ type: 'rng_reveal', nonce: pending.ownNonce });
+          }
+          completeExchange();
+        });
+        break;
+      }
+
+      case 'state_hash':
+        if (message.stateHash === undefined || message.moveCount === undefined) break;
+        peerHashRef.current = { moveCount: message.moveCount, stateHash: message.stateHash };
+        if (gameStateRef.current) checkPeerHash(gameStateRef.current);
+        break;
+
+      case 'sync_request':
+        // Guest saw a desync - send our state, which wins
+        if (!isHostRef.current || !gameStateRef.current) break;
+        setError('Game state desync detected - sending host state to opponent');
+        connectionRef.current?.send({ type: 'sync_response', state: serializeState(gameStateRef.current) });
+        break;
+
+      case 'sync_response': {
+        // Replace our state with the host's - or, after resuming a saved
+        // game, with the peer's, which kept playing while we were gone
+        const resuming = resumingRef.current;
+        if ((isHostRef.current && !resuming) || !message.state) break;
+        // Only a well-formed state of this same game replaces ours
+        const state = readState(message.state);
+        if (!state || state.gameSeed !== gameSeedRef.current) {
+          console.error('[Game] Peer sent an invalid game state');
+          setError('Opponent sent an invalid game state - keeping ours');
+          resumingRef.current = false;
+          break;
+        }
+        takeExchange();
+        peerHashRef.current = null;
+        setGameState(state);
+        if (resuming) {
+          resumingRef.current = false;
+          if (typeof message.whiteTimeMs === 'number' && typeof message.blackTimeMs === 'number') {
+            setTimerState({
+              whiteTimeMs: message.whiteTimeMs,
+              blackTimeMs: message.blackTimeMs,
+              activeColor: state.moveHistory.length === 0 ? null : state.currentPlayer,
+              lastTickTime: Date.now()
+            });
           }
-          return prev;
+          break;
+        }
+        setError('Game state was out of sync - restored from host');
+        break;
+      }
+
+      case 'reconnect': {
+        // Host is back after a dropped connection: take its clocks, and its
+        // state if ours differs. A resumed game gets the whole state anyway.
+        if (isHostRef.current || resumingRef.current || message.stateHash === undefined) break;
+        setTimerState({
+          whiteTimeMs: message.whiteTimeMs ?? timerStateRef.current.whiteTimeMs,
+          blackTimeMs: message.blackTimeMs ?? timerStateRef.current.blackTimeMs,
+          activeColor: message.color ?? null,
+          lastTickTime: Date.now()
+        });
+        const state = gameStateRef.current;
+        if (state && (state.moveHistory.length !== message.moveCount || hashState(state) !== message.stateHash)) {
+          connectionRef.current?.send({ type: 'sync_request' });
+        }
+        break;
+      }
+
+      case 'resume_request': {
+        // Opponent reloaded a saved game and rejoined - send our state and clocks
+        setPeerDisconnected(false);
+        const state = gameStateRef.current;
+        if (!state) break;
+        const clock = timerStateRef.current;
+        connectionRef.current?.send({
+          type: 'sync_response',
+          state: serializeState(state),
+          whiteTimeMs: clock.whiteTimeMs,
+          blackTimeMs: clock.blackTimeMs
         });
         break;
+      }
 
       case 'resign':
         // Opponent resigned - mark game over with their color
@@ -162,9 +668,14 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
         console.log('[Game] Rematch accepted!');
         setRematchRequested(false);
         setRematchReceived(false);
-        // Reset game state with swapped colors
+        // Reset game state with swapped colors and a fresh shared seed
         setPlayerColor(prev => prev === 'white' ? 'black' : 'white');
-        setGameState(createGame(true, maxSuperpositionsRef.current));
+        gameSeedRef.current = mixSeed(gameSeedRef.current, 1);
+        peerHashRef.current = null;
+        clearOffers();
+        setGameState(createGame(true, rulesRef.current, gameSeedRef.current, mulberry32, setupRef.current));
+        // Fresh clocks for the new game
+        initializeTimer(timeControlRef.current.minutes, timeControlRef.current.increment, timeControlRef.current.onDisconnect);
         break;
 
       case 'rematch_decline':
@@ -173,34 +684,149 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
         setRematchRequested(false);
         break;
 
-      case 'time_sync':
-        // Sync timer state from opponent after their move
-        if (message.whiteTimeMs !== undefined && message.blackTimeMs !== undefined) {
-          setTimerState(prev => {
-            // Figure out whose turn it is now (opponent just moved, so it's our turn)
-            // If white time > previous, white just moved (got increment), so now black's turn
-            const wasWhiteMove = message.whiteTimeMs! > prev.whiteTimeMs - 200; // 200ms tolerance
-            const newActiveColor = wasWhiteMove ? 'black' : 'white';
-
-            return {
-              whiteTimeMs: message.whiteTimeMs!,
-              blackTimeMs: message.blackTimeMs!,
-              activeColor: prev.activeColor === null ? 'black' : newActiveColor as 'white' | 'black',
-              lastTickTime: Date.now()
-            };
-          });
+      case 'draw_offer':
+        // Nothing to agree once the game is over (a repeated offer just stays up)
+        if (!gameStateRef.current || isGameOver(gameStateRef.current)) break;
+        setDrawOfferReceived(true);
+        break;
+
+      case 'draw_accept':
+        // Only an answer to our own offer
+        if (!drawOfferedRef.current) break;
+        setDrawOffered(false);
+        setGameState(prev => prev && !isGameOver(prev) ? drawAgreed(prev) : prev);
+        break;
+
+      case 'draw_decline':
+        setDrawOffered(false);
+        break;
+
+      case 'takeback_request': {
+        // The peer may only go back to before its own last move
+        const state = gameStateRef.current;
+        if (!state || isGameOver(state) || message.moveCount === undefined) break;
+        const peerColor: Player = playerColorRef.current === 'white' ? 'black' : 'white';
+        const target = takebackTarget(state, peerColor);
+        if (target < 0 || target !== message.moveCount) {
+          console.warn('[Game] Ignoring takeback request for move', message.moveCount);
+          break;
         }
+        setTakebackReceived(target);
+        break;
+      }
+
+      case 'takeback_accept': {
+        // Only an answer to our own request, for the position we asked for
+        const target = takebackRequestedRef.current;
+        if (target === null || message.moveCount !== target) break;
+        setTakebackRequested(null);
+        applyTakeback(target);
         break;
+      }
+
+      case 'takeback_decline':
+        setTakebackRequested(null);
+        break;
+
+      case 'abort': {
+        // Opponent aborted before both sides had moved - no result
+        const state = gameStateRef.current;
+        if (!state || state.moveHistory.length >= 2) break;
+        takeExchange();
+        setGameState(prev => prev && !isGameOver(prev) && prev.moveHistory.length < 2 ? { ...prev, gameStatus: 'aborted' } : prev);
+        break;
+      }
+
+      case 'chat': {
+        // Muted, over the rate limit or empty - dropped
+        if (chatMutedRef.current || message.text === undefined) break;
+        const text = cleanChatText(message.text);
+        const slots = takeChatSlot(receivedChatRef.current, Date.now());
+        if (!text || !slots) break;
+        receivedChatRef.current = slots;
+        addChatMessage('opponent', text);
+        break;
+      }
+
+      case 'ping':
+        connectionRef.current?.send({ type: 'pong', sentAt: message.sentAt, peerTime: Date.now() });
+        break;
+
+      case 'pong':
+        if (message.sentAt === undefined || message.peerTime === undefined) break;
+        clockSyncRef.current = updateClockSync(clockSyncRef.current, message.sentAt, message.peerTime, Date.now());
+        break;
+
+      case 'flag': {
+        // The host referees flag falls - take its call and its clocks, then
+        // commit to our nonce so the material measurement is fair
+        const state = gameStateRef.current;
+        if (isHostRef.current || !message.color || !message.commitment || !state || isGameOver(state)) break;
+        setTimerState(prev => ({
+          ...prev,
+          whiteTimeMs: message.whiteTimeMs ?? prev.whiteTimeMs,
+          blackTimeMs: message.blackTimeMs ?? prev.blackTimeMs
+        }));
+        setFlaggedPlayer(message.color);
+        takeExchange(); // A move still waiting on its randomness doesn't count
+        startExchange('responder', message, message.commitment).then(commitment => {
+          connectionRef.current?.send({ type: 'rng_commit', commitment });
+        });
+        break;
+      }
     }
-  }, []);
+  }, [startExchange, failExchange, completeExchange, checkPeerHash, takeExchange, receiveMoveClock, applyTakeback, clearOffers, addChatMessage, initializeTimer]);
+
+  // Track room rules: superposition limit, split ratios and variant switches
+  const rulesRef = useRef<QuantumRuleset>(DEFAULT_RULESET);
+  const setupRef = useRef<StartingSetup>(STANDARD_SETUP); // Chess960 positions follow the game seed
 
-  // Track maxSuperpositions setting
-  const maxSuperpositionsRef = useRef(2);
+  // Shared room seed - every move's collapse seed is derived from it
+  const gameSeedRef = useRef(0);
 
   // Handle game seed (create initial game with quantum mode ON)
-  const handleGameSeed = useCallback((_seed: number) => {
-    console.log('[Game] Starting new QUANTUM game with maxSuperpositions:', maxSuperpositionsRef.current);
-    setGameState(createGame(true, maxSuperpositionsRef.current)); // Quantum mode enabled!
+  const handleGameSeed = useCallback((seed: number) => {
+    // Rejoining the room (after a drop, or to resume) keeps the game we have
+    if (gameStateRef.current) return;
+    console.log('[Game] Starting new QUANTUM game with rules:', rulesRef.current);
+    gameSeedRef.current = seed >>> 0;
+    const game = createGame(true, rulesRef.current, gameSeedRef.current, mulberry32, setupRef.current); // Quantum mode enabled!
+    gameStateRef.current = game;
+    setGameState(game);
+  }, []);
+
+  // Back in touch after a dropped connection. Paused clocks carry on from
+  // where they stopped; the host sends its clocks and state hash, and the
+  // guest resyncs if its state differs (a move in flight may have been
+  // applied on one side only).
+  const peerReconnected = useCallback(() => {
+    setPeerReconnecting(false);
+    setPeerDisconnected(false);
+    const now = Date.now();
+    if (!isHostRef.current) {
+      if (clockPolicyRef.current === 'pause') setTimerState(prev => ({ ...prev, lastTickTime: now }));
+      return;
+    }
+    const state = gameStateRef.current;
+    if (!state) return;
+    // Paused clocks stopped at their last tick
+    const clock = timerStateRef.current;
+    const until = clockPolicyRef.current === 'run' ? now : clock.lastTickTime;
+    const next: TimerState = {
+      whiteTimeMs: remainingAt(clock, 'white', until),
+      blackTimeMs: remainingAt(clock, 'black', until),
+      activeColor: state.moveHistory.length === 0 ? null : state.currentPlayer,
+      lastTickTime: now
+    };
+    setTimerState(next);
+    connectionRef.current?.send({
+      type: 'reconnect',
+      stateHash: hashState(state),
+      moveCount: state.moveHistory.length,
+      whiteTimeMs: next.whiteTimeMs,
+      blackTimeMs: next.blackTimeMs,
+      color: next.activeColor ?? undefined
+    });
   }, []);
 
   // Create WebRTC connection with all callbacks
@@ -211,40 +837,43 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
       onGameSeed: handleGameSeed,
       onPeerDisconnected: () => {
         // Peer disconnected - game ends
+        takeExchange();
+        setPeerReconnecting(false);
         setPeerDisconnected(true);
-      }
+      },
+      onPeerReconnecting: () => {
+        // A move in flight is dropped - its mover plays it again after the resync
+        takeExchange();
+        setPeerReconnecting(true);
+      },
+      onPeerReconnected: peerReconnected,
+      onSpectatorCount: setSpectatorCount,
+      onSlotToken: token => { slotTokenRef.current = token; }
     });
     return connection;
-  }, [handleMessage, handleGameSeed]);
-
-  // Initialize timer with time control settings
-  const initializeTimer = useCallback((minutes: number, increment: number) => {
-    const initialTimeMs = minutes * 60 * 1000;
-    setTimeControl({ minutes, increment });
-    setTimerState({
-      whiteTimeMs: initialTimeMs,
-      blackTimeMs: initialTimeMs,
-      activeColor: null, // Timer starts after white's first move
-      lastTickTime: 0
-    });
-    setFlaggedPlayer(null);
-  }, []);
+  }, [handleMessage, handleGameSeed, takeExchange, peerReconnected]);
 
   // Create a new room
   const createRoom = useCallback(async (
-    maxSuperpositions: number = 2,
+    rules: QuantumRuleset = DEFAULT_RULESET,
     isPublic: boolean = false,
-    timeControlParam: TimeControl = { minutes: 5, increment: 0 }
+    timeControlParam: TimeControl = { minutes: 5, increment: 0 },
+    setup: StartingSetup = STANDARD_SETUP
   ) => {
     try {
-      maxSuperpositionsRef.current = maxSuperpositions;
+      rulesRef.current = rules;
+      setupRef.current = setup;
       setError(null);
       const response = await fetch(`${serverUrl}/api/rooms`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           seed: Date.now(),
-          maxSuperpositions,
+          maxSuperpositions: rules.maxSuperpositions,
+          allowUnevenSplits: rules.allowUnevenSplits,
+          variant: rulesetVariant(rules) ?? 'classic',
+          setup: setup.kind,
+          ...(setup.kind === 'custom' && { startPosition: setup.position }),
           isPublic,
           timeControl: timeControlParam
         })
@@ -255,9 +884,10 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
       const data = await response.json();
       setRoomId(data.room_id);
       setPlayerColor(data.player_color as Player);
+      isHostRef.current = true;
 
       // Initialize timer with room settings
-      initializeTimer(data.time_control_minutes, data.time_control_increment);
+      initializeTimer(data.time_control_minutes, data.time_control_increment, data.time_control_on_disconnect ?? 'pause');
 
       connectionRef.current = createConnection();
       await connectionRef.current.connect(serverUrl, data.room_id);
@@ -284,13 +914,20 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
       const data = await response.json();
       setRoomId(data.room_id);
       setPlayerColor(data.player_color as Player);
-      // Get maxSuperpositions from room data (default 2)
-      const maxSup = data.max_superpositions ?? 2;
-      maxSuperpositionsRef.current = maxSup;
-      setGameState(createGame(true, maxSup));
+      isHostRef.current = false;
+      // Play by the host's rules stored on the room (older servers send no variant)
+      rulesRef.current = rulesForVariant(
+        data.variant ?? 'classic',
+        data.max_superpositions ?? 2,
+        data.allow_uneven_splits ?? false
+      );
+      setupRef.current = data.setup === 'custom' ? { kind: 'custom', position: data.start_position }
+        : data.setup === 'chess960' ? { kind: 'chess960' } : STANDARD_SETUP;
+      gameSeedRef.current = (data.game_seed ?? 0) >>> 0;
+      setGameState(createGame(true, rulesRef.current, gameSeedRef.current, mulberry32, setupRef.current));
 
       // Initialize timer with room settings
-      initializeTimer(data.time_control_minutes, data.time_control_increment);
+      initializeTimer(data.time_control_minutes, data.time_control_increment, data.time_control_on_disconnect ?? 'pause');
 
       connectionRef.current = createConnection();
       await connectionRef.current.connect(serverUrl, data.room_id);
@@ -299,73 +936,51 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
     }
   }, [serverUrl, createConnection, initializeTimer]);
 
-  // Handle timer update after a move
-  const handleMoveTimer = useCallback((movingColor: 'white' | 'black') => {
-    setTimerState(prev => {
-      const now = Date.now();
-
-      // If this is white's first move, start the clock
-      if (prev.activeColor === null && movingColor === 'white') {
-        return {
-          ...prev,
-          activeColor: 'black', // After white moves, it's black's turn
-          lastTickTime: now
-        };
-      }
-
-      // Add increment to the player who just moved
-      const incrementMs = timeControl.increment * 1000;
-      const newWhiteTime = movingColor === 'white'
-        ? prev.whiteTimeMs + incrementMs
-        : prev.whiteTimeMs;
-      const newBlackTime = movingColor === 'black'
-        ? prev.blackTimeMs + incrementMs
-        : prev.blackTimeMs;
+  // Handle timer update after our move (or the computer's): returns the
+  // mover's time left before the increment, which the move message reports
+  const handleMoveTimer = useCallback((movingColor: 'white' | 'black'): number => {
+    const now = Date.now();
+    setTimerState(prev => clockAfterMove(prev, movingColor, remainingAt(prev, movingColor, now), incrementMsRef.current, now));
+    return remainingAt(timerStateRef.current, movingColor, now);
+  }, []);
 
-      return {
-        whiteTimeMs: newWhiteTime,
-        blackTimeMs: newBlackTime,
-        activeColor: movingColor === 'white' ? 'black' : 'white',
-        lastTickTime: now
-      };
+  // Play a validated move. Hot-seat games apply it right away; online the
+  // move goes to the peer with our randomness commitment and is applied once
+  // both nonces are revealed (see completeExchange).
+  const playMove = useCallback((
+    move: GameMessage,
+    localResult: { newState: QuantumGameState; collapseResult?: CollapseResult }
+  ) => {
+    if (isLocalGame) {
+      if (localResult.collapseResult) setLastCollapse(localResult.collapseResult);
+      setGameState(localResult.newState);
+      clearOffers();
+      return;
+    }
+    startExchange('mover', move).then(commitment => {
+      connectionRef.current?.send({ ...move, commitment, sentAt: Date.now() });
     });
-  }, [timeControl.increment]);
+  }, [isLocalGame, startExchange, clearOffers]);
+
+  // Colour we move for - in a hot-seat game, whoever is to move
+  const moverColor = isLocalGame && !aiOpponent ? gameState?.currentPlayer ?? 'white' : playerColor;
 
   // Execute a classical move
   const executeMove = useCallback((from: Square, to: Square, promotion?: string): boolean => {
-    if (!gameState) return false;
-
-    // Generate a seed for collapse (for P2P determinism)
-    const collapseSeed = Math.floor(Math.random() * 0x7FFFFFFF);
+    if (!gameState || pendingExchangeRef.current) return false;
 
-    const result = makeMove(gameState, from, to, promotion as PieceSymbol | undefined, collapseSeed);
+    // Validate first - online, the real collapse seed comes from the exchange
+    const result = makeMove(gameState, from, to, promotion as PieceSymbol | undefined);
     if (!result.success) {
       console.error('[Game] Invalid move:', result.error);
       return false;
     }
 
-    if (result.collapseResult) {
-      setLastCollapse(result.collapseResult);
-    }
-
-    setGameState(result.newState);
-
     // Update timer (add increment, switch active clock)
-    handleMoveTimer(playerColor);
-
-    // Send move to peer with collapse seed
-    connectionRef.current?.send({ type: 'move', from, to, promotion, collapseSeed });
-    connectionRef.current?.send({ type: 'fen', fen: result.newState.chess.fen() });
-
-    // Send time sync after move
-    setTimerState(current => {
-      connectionRef.current?.send({
-        type: 'time_sync',
-        whiteTimeMs: current.whiteTimeMs,
-        blackTimeMs: current.blackTimeMs
-      });
-      return current;
-    });
+    const clockMs = handleMoveTimer(moverColor);
+
+    // Send move to peer
+    playMove({ type: 'move', from, to, promotion, clockMs }, result);
 
     // Reset split mode
     setSplitMode(false);
@@ -373,36 +988,26 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
     setSplitTo1(null);
 
     return true;
-  }, [gameState, playerColor, handleMoveTimer]);
+  }, [gameState, moverColor, handleMoveTimer, playMove]);
 
   // Execute a QUANTUM SPLIT move
   const executeSplitMove = useCallback((from: Square, to1: Square, to2: Square): boolean => {
-    if (!gameState) return false;
+    if (!gameState || pendingExchangeRef.current) return false;
 
-    const result = makeSplitMove(gameState, from, to1, to2);
+    // Picked ratio only counts where the room allows uneven splits
+    const ratio = gameState.rules.allowUnevenSplits ? splitRatio : 0.5;
+    const result = makeSplitMove(gameState, from, to1, to2, ratio);
     if (!result.success) {
       console.error('[Game] Invalid split move:', result.error);
       setError(result.error || 'Invalid split move');
       return false;
     }
 
-    setGameState(result.newState);
-
     // Update timer (add increment, switch active clock)
-    handleMoveTimer(playerColor);
+    const clockMs = handleMoveTimer(moverColor);
 
     // Send split to peer
-    connectionRef.current?.send({ type: 'split', from, to: to1, to2 });
-
-    // Send time sync after move
-    setTimerState(current => {
-      connectionRef.current?.send({
-        type: 'time_sync',
-        whiteTimeMs: current.whiteTimeMs,
-        blackTimeMs: current.blackTimeMs
-      });
-      return current;
-    });
+    playMove({ type: 'split', from, to: to1, to2, ...(ratio !== 0.5 && { ratio }), clockMs }, result);
 
     // Reset split mode
     setSplitMode(false);
@@ -410,13 +1015,47 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
     setSplitTo1(null);
 
     return true;
-  }, [gameState, playerColor, handleMoveTimer]);
+  }, [gameState, moverColor, splitRatio, handleMoveTimer, playMove]);
+
+  // Execute a QUANTUM MERGE move
+  const executeMergeMove = useCallback((from1: Square, from2: Square, to: Square): boolean => {
+    if (!gameState || pendingExchangeRef.current) return false;
+
+    const result = makeMergeMove(gameState, from1, from2, to);
+    if (!result.success) {
+      console.error('[Game] Invalid merge move:', result.error);
+      setError(result.error || 'Invalid merge move');
+      return false;
+    }
+
+    // Update timer (add increment, switch active clock)
+    const clockMs = handleMoveTimer(moverColor);
+
+    // Send merge to peer
+    playMove({ type: 'merge', from: from1, from2, to, clockMs }, result);
+
+    // Reset merge mode
+    setMergeMode(false);
+    setMergeFrom1(null);
+    setMergeFrom2(null);
+
+    return true;
+  }, [gameState, moverColor, handleMoveTimer, playMove]);
 
   // Toggle split mode
   const toggleSplitMode = useCallback(() => {
     setSplitMode(prev => !prev);
     setSplitFrom(null);
     setSplitTo1(null);
+    setMergeMode(false);
+  }, []);
+
+  // Toggle merge mode
+  const toggleMergeMode = useCallback(() => {
+    setMergeMode(prev => !prev);
+    setMergeFrom1(null);
+    setMergeFrom2(null);
+    setSplitMode(false);
   }, []);
 
   // Handle split mode selection
@@ -425,6 +1064,14 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
       setSplitFrom(square);
       return 'from';
     } else if (!splitTo1) {
+      // Only squares the piece reaches in every reality - the engine
+      // refuses the rest, so don't let the player pick one
+      if (!gameState || !getSplitMovesFromSquare(gameState, splitFrom).some(m => m.to === square)) {
+        setError('Cannot split to that square');
+        setSplitMode(false);
+        setSplitFrom(null);
+        return 'cancelled';
+      }
       setSplitTo1(square);
       return 'to1';
     } else {
@@ -439,7 +1086,29 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
         return 'cancelled';
       }
     }
-  }, [splitFrom, splitTo1, executeSplitMove]);
+  }, [gameState, splitFrom, splitTo1, executeSplitMove]);
+
+  // Handle merge mode selection: two positions of one piece, then the target
+  const handleMergeSelection = useCallback((square: Square): 'from1' | 'from2' | 'complete' | 'cancelled' => {
+    if (!mergeFrom1) {
+      setMergeFrom1(square);
+      return 'from1';
+    } else if (!mergeFrom2) {
+      setMergeFrom2(square);
+      return 'from2';
+    } else {
+      // Third click completes the merge
+      const success = executeMergeMove(mergeFrom1, mergeFrom2, square);
+      if (success) {
+        return 'complete';
+      } else {
+        setMergeMode(false);
+        setMergeFrom1(null);
+        setMergeFrom2(null);
+        return 'cancelled';
+      }
+    }
+  }, [mergeFrom1, mergeFrom2, executeMergeMove]);
 
   // Toggle quantum mode
   const toggleQuantumMode = useCallback(() => {
@@ -449,16 +1118,16 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
 
   // Resign the game
   const resign = useCallback(() => {
-    if (!gameState || !connectionRef.current) return;
+    if (!gameState || (!connectionRef.current && !isLocalGame)) return;
 
     // Send resign message to opponent
-    connectionRef.current.send({
+    connectionRef.current?.send({
       type: 'resign',
-      color: playerColor
+      color: moverColor
     });
 
     // Update local game state - must update gameStatus for isGameOver to work
-    const winnerStatus = playerColor === 'white' ? 'black_wins' : 'white_wins';
+    const winnerStatus = moverColor === 'white' ? 'black_wins' : 'white_wins';
     setGameState(prev => {
       if (!prev) return prev;
       return {
@@ -468,7 +1137,72 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
         resultReason: 'resignation'
       };
     });
-  }, [gameState, playerColor]);
+  }, [gameState, moverColor, isLocalGame]);
+
+  // Offer a draw. In a hot-seat game both players are here, so it is agreed;
+  // the computer takes it unless it expects to do better.
+  const offerDraw = useCallback(() => {
+    if (!gameState || isGameOver(gameState) || drawOffered) return;
+    if (isLocalGame) {
+      const aiScore = aiOpponent && (aiOpponent.color === 'white' ? winProbability(gameState) : 1 - winProbability(gameState));
+      if (aiScore === null || aiScore <= 0.5) setGameState(drawAgreed(gameState));
+      return;
+    }
+    connectionRef.current?.send({ type: 'draw_offer' });
+    setDrawOffered(true);
+  }, [gameState, drawOffered, isLocalGame, aiOpponent]);
+
+  // Accept the opponent's draw offer
+  const acceptDraw = useCallback(() => {
+    if (!drawOfferReceived) return;
+    connectionRef.current?.send({ type: 'draw_accept' });
+    setDrawOfferReceived(false);
+    setGameState(prev => prev && !isGameOver(prev) ? drawAgreed(prev) : prev);
+  }, [drawOfferReceived]);
+
+  // Decline the opponent's draw offer
+  const declineDraw = useCallback(() => {
+    connectionRef.current?.send({ type: 'draw_decline' });
+    setDrawOfferReceived(false);
+  }, []);
+
+  // Ask to take back our last move. Hot-seat undoes the last move; against
+  // the computer it goes back to before our last move.
+  const requestTakeback = useCallback(() => {
+    if (!gameState || isGameOver(gameState) || takebackRequested !== null) return;
+    const target = isLocalGame && !aiOpponent
+      ? gameState.moveHistory.length - 1
+      : takebackTarget(gameState, playerColor);
+    if (target < 0) return;
+    if (isLocalGame) {
+      applyTakeback(target);
+      return;
+    }
+    connectionRef.current?.send({ type: 'takeback_request', moveCount: target });
+    setTakebackRequested(target);
+  }, [gameState, takebackRequested, isLocalGame, aiOpponent, playerColor, applyTakeback]);
+
+  // Accept the opponent's takeback request
+  const acceptTakeback = useCallback(() => {
+    if (takebackReceived === null) return;
+    connectionRef.current?.send({ type: 'takeback_accept', moveCount: takebackReceived });
+    applyTakeback(takebackReceived);
+    setTakebackReceived(null);
+  }, [takebackReceived, applyTakeback]);
+
+  // Decline the opponent's takeback request
+  const declineTakeback = useCallback(() => {
+    connectionRef.current?.send({ type: 'takeback_decline' });
+    setTakebackReceived(null);
+  }, []);
+
+  // Abort - only before both players have moved, and the game has no result
+  const abortGame = useCallback(() => {
+    if (!gameState || isGameOver(gameState) || gameState.moveHistory.length >= 2) return;
+    connectionRef.current?.send({ type: 'abort' });
+    takeExchange();
+    setGameState(prev => prev && !isGameOver(prev) ? { ...prev, gameStatus: 'aborted' } : prev);
+  }, [gameState, takeExchange]);
 
   // Disconnect
   const disconnect = useCallback(() => {
@@ -479,25 +1213,171 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
     }
     connectionRef.current?.disconnect();
     connectionRef.current = null;
+    takeExchange();
+    peerHashRef.current = null;
+    clockSyncRef.current = null;
     setConnectionState('disconnected');
     setRoomId(null);
+    gameStateRef.current = null; // A seed for the next room starts a new game
     setGameState(null);
     setSplitMode(false);
     setSplitFrom(null);
     setSplitTo1(null);
+    setMergeMode(false);
+    setMergeFrom1(null);
+    setMergeFrom2(null);
     setRematchRequested(false);
     setRematchReceived(false);
+    clearOffers();
     setPeerDisconnected(false);
+    setPeerReconnecting(false);
+    setSpectatorCount(0);
+    setChatMessages([]);
+    sentChatRef.current = [];
+    receivedChatRef.current = [];
     setFlaggedPlayer(null);
+    setIsLocalGame(false);
+    setAiOpponent(null);
+    aiWorkerRef.current?.terminate();
+    aiWorkerRef.current = null;
+    resumingRef.current = false;
+    slotTokenRef.current = null;
+    clearSavedGame(); // Leaving on purpose - nothing to recover
+  }, [takeExchange, clearOffers]);
+
+  // Start a game on this device - no server or peer involved. Without an
+  // AI opponent both colours are played here (hot-seat).
+  const startLocalGame = useCallback((
+    rules: QuantumRuleset = DEFAULT_RULESET,
+    timeControlParam: TimeControl = { minutes: 5, increment: 0 },
+    ai: AIOpponent | null = null,
+    setup: StartingSetup = STANDARD_SETUP
+  ) => {
+    rulesRef.current = rules;
+    setupRef.current = setup;
+    gameSeedRef.current = crypto.getRandomValues(new Uint32Array(1))[0]!;
+    setError(null);
+    setIsLocalGame(true);
+    setAiOpponent(ai);
+    setPlayerColor(ai?.color === 'white' ? 'black' : 'white');
+    setGameState(createGame(true, rules, gameSeedRef.current, mulberry32, setup));
+    initializeTimer(timeControlParam.minutes, timeControlParam.increment);
+  }, [initializeTimer]);
+
+  // Load a Quantum PGN as a hot-seat game, to review it or play on from
+  // where it stopped. Clocks restart from the game's time control.
+  const importPGN = useCallback((pgn: string) => {
+    let imported: ReturnType<typeof fromQuantumPGN>;
+    try {
+      imported = fromQuantumPGN(pgn);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read PGN');
+      return;
+    }
+    const { tags, state } = imported;
+    rulesRef.current = state.rules;
+    setupRef.current = state.setup;
+    gameSeedRef.current = state.gameSeed;
+    setError(null);
+    setIsLocalGame(true);
+    setAiOpponent(null);
+    setPlayerColor('white');
+    clearOffers();
+    setGameState(state);
+    // PGN time controls are "seconds+increment"
+    const clock = /^(\d+)\+(\d+)$/.exec(tags.TimeControl ?? '');
+    initializeTimer(clock ? Number(clock[1]) / 60 : 5, clock ? Number(clock[2]) : 0);
+  }, [clearOffers, initializeTimer]);
+
+  // Send a chat message. Returns false when there's nothing to send or
+  // we're over the rate limit.
+  const sendChat = useCallback((text: string): boolean => {
+    const clean = cleanChatText(text);
+    const slots = takeChatSlot(sentChatRef.current, Date.now());
+    if (!clean || !slots || !connectionRef.current) return false;
+    sentChatRef.current = slots;
+    connectionRef.current.send({ type: 'chat', text: clean });
+    addChatMessage('me', clean);
+    return true;
+  }, [addChatMessage]);
+
+  const toggleChatMute = useCallback(() => {
+    setChatMuted(prev => !prev);
+  }, []);
+
+  // Continue the saved game. A game on this device picks up where it was
+  // left, its clocks paused while away; online we reconnect to the room
+  // and the peer that stayed sends its state and clocks (resume_request).
+  const resumeGame = useCallback(async () => {
+    const saved = savedGame;
+    if (!saved) return;
+    setSavedGame(null);
+
+    const state = readState(saved.state);
+    if (!state) {
+      clearSavedGame();
+      setError('The saved game is damaged and cannot be resumed');
+      return;
+    }
+
+    try {
+      rulesRef.current = state.rules;
+      setupRef.current = state.setup;
+      gameSeedRef.current = state.gameSeed;
+      setError(null);
+      setPlayerColor(saved.playerColor);
+      setGameState(state);
+      setTimeControl(saved.timeControl);
+      incrementMsRef.current = saved.timeControl.increment * 1000;
+      clockPolicyRef.current = saved.timeControl.onDisconnect ?? 'pause';
+      setTimerState({
+        whiteTimeMs: saved.whiteTimeMs,
+        blackTimeMs: saved.blackTimeMs,
+        activeColor: state.moveHistory.length === 0 ? null : state.currentPlayer,
+        lastTickTime: Date.now()
+      });
+      setFlaggedPlayer(null);
+
+      if (!saved.roomId) {
+        setIsLocalGame(true);
+        setAiOpponent(saved.aiOpponent);
+        return;
+      }
+
+      setRoomId(saved.roomId);
+      isHostRef.current = saved.isHost;
+      resumingRef.current = true;
+      connectionRef.current = createConnection();
+      slotTokenRef.current = saved.slotToken ?? null;
+      await connectionRef.current.connect(serverUrl, saved.roomId, saved.isHost ? 'host' : 'guest', saved.slotToken);
+    } catch (err) {
+      // A save that can't be picked up again isn't offered next time
+      resumingRef.current = false;
+      clearSavedGame();
+      setError(err instanceof Error ? err.message : 'Failed to resume game');
+    }
+  }, [savedGame, serverUrl, createConnection]);
+
+  // Forget the saved game instead of resuming it
+  const discardSavedGame = useCallback(() => {
+    clearSavedGame();
+    setSavedGame(null);
   }, []);
 
   // Request a rematch
   const requestRematch = useCallback(() => {
+    if (isLocalGame) {
+      // Nobody to ask - start the next game straight away
+      gameSeedRef.current = mixSeed(gameSeedRef.current, 1);
+      setGameState(createGame(true, rulesRef.current, gameSeedRef.current, mulberry32, setupRef.current));
+      initializeTimer(timeControl.minutes, timeControl.increment, timeControl.onDisconnect);
+      return;
+    }
     if (!connectionRef.current) return;
     console.log('[Game] Sending rematch request');
     connectionRef.current.send({ type: 'rematch_request' });
     setRematchRequested(true);
-  }, []);
+  }, [isLocalGame, timeControl, initializeTimer]);
 
   // Accept a rematch request
   const acceptRematch = useCallback(() => {
@@ -506,12 +1386,15 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
     connectionRef.current.send({ type: 'rematch_accept' });
     setRematchReceived(false);
     setRematchRequested(false);
-    // Reset game state with swapped colors
+    // Reset game state with swapped colors and a fresh shared seed
     setPlayerColor(prev => prev === 'white' ? 'black' : 'white');
-    setGameState(createGame(true, maxSuperpositionsRef.current));
+    gameSeedRef.current = mixSeed(gameSeedRef.current, 1);
+    peerHashRef.current = null;
+    clearOffers();
+    setGameState(createGame(true, rulesRef.current, gameSeedRef.current, mulberry32, setupRef.current));
     // Reset timer for new game
-    initializeTimer(timeControl.minutes, timeControl.increment);
-  }, [timeControl, initializeTimer]);
+    initializeTimer(timeControl.minutes, timeControl.increment, timeControl.onDisconnect);
+  }, [timeControl, initializeTimer, clearOffers]);
 
   // Decline a rematch request
   const declineRematch = useCallback(() => {
@@ -525,18 +1408,57 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
   useEffect(() => {
     return () => {
       connectionRef.current?.disconnect();
+      aiWorkerRef.current?.terminate();
       if (timerIntervalRef.current) {
         clearInterval(timerIntervalRef.current);
       }
     };
   }, []);
 
+  // Computer's turn: search in the worker, then play its move like a peer's
+  useEffect(() => {
+    if (!aiOpponent || !gameState || flaggedPlayer) return;
+    if (isGameOver(gameState) || gameState.currentPlayer !== aiOpponent.color) return;
+
+    aiWorkerRef.current ??= new Worker(new URL('../engine/ai.worker.ts', import.meta.url), { type: 'module' });
+    const worker = aiWorkerRef.current;
+    const requestId = ++aiRequestIdRef.current;
+    let cancelled = false;
+
+    worker.onmessage = (event: MessageEvent<AIResponse>) => {
+      // Ignore answers to positions that are no longer on the board
+      if (cancelled || event.data.requestId !== requestId) return;
+      if (!event.data.move) {
+        console.error('[Game] Computer found no move');
+        return;
+      }
+      const result = applyMoveMessage(gameState, toMoveMessage(event.data.move));
+      if (!result.success) {
+        console.error('[Game] Invalid move from computer:', result.error);
+        return;
+      }
+      if (result.collapseResult) setLastCollapse(result.collapseResult);
+      setGameState(result.newState);
+      handleMoveTimer(aiOpponent.color);
+    };
+
+    const request: AIRequest = { requestId, state: serializeState(gameState), level: aiOpponent.level };
+    worker.postMessage(request);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [aiOpponent, gameState, flaggedPlayer, handleMoveTimer]);
+
   // Timer tick effect - runs every 100ms when game is active
   useEffect(() => {
     // Don't run timer if game hasn't started or is over or player flagged
     if (!gameState || timerState.activeColor === null || flaggedPlayer) {
       return;
     }
+    if (!clocksRunning(isLocalGame, connectionState, timeControl.onDisconnect)) {
+      return;
+    }
 
     const gameOver = isGameOver(gameState);
     if (gameOver) {
@@ -544,31 +1466,27 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
     }
 
     timerIntervalRef.current = setInterval(() => {
-      setTimerState(prev => {
-        if (prev.activeColor === null) return prev;
-
-        const now = Date.now();
-        const elapsed = prev.lastTickTime > 0 ? now - prev.lastTickTime : 0;
-
-        let newWhiteTime = prev.whiteTimeMs;
-        let newBlackTime = prev.blackTimeMs;
+      const now = Date.now();
 
-        if (prev.activeColor === 'white') {
-          newWhiteTime = Math.max(0, prev.whiteTimeMs - elapsed);
-          if (newWhiteTime === 0) {
-            setFlaggedPlayer('white');
-          }
-        } else {
-          newBlackTime = Math.max(0, prev.blackTimeMs - elapsed);
-          if (newBlackTime === 0) {
-            setFlaggedPlayer('black');
-          }
+      // The referee (host, or this device for a local game) calls flags:
+      // its own at zero, the peer's once past the lag allowance - the
+      // peer's move may still be in flight. The guest waits for a 'flag'.
+      const clock = timerStateRef.current;
+      if (clock.activeColor !== null && (isLocalGame || isHostRef.current)) {
+        const ownClock = isLocalGame || clock.activeColor === playerColor;
+        const flagAt = ownClock ? 0 : -lagAllowance(clockSyncRef.current);
+        if (remainingAt(clock, clock.activeColor, now) <= flagAt) {
+          setFlaggedPlayer(clock.activeColor);
         }
+      }
 
+      setTimerState(prev => {
+        if (prev.activeColor === null) return prev;
+        const remainingMs = remainingAt(prev, prev.activeColor, now);
         return {
           ...prev,
-          whiteTimeMs: newWhiteTime,
-          blackTimeMs: newBlackTime,
+          whiteTimeMs: prev.activeColor === 'white' ? remainingMs : prev.whiteTimeMs,
+          blackTimeMs: prev.activeColor === 'black' ? remainingMs : prev.blackTimeMs,
           lastTickTime: now
         };
       });
@@ -580,52 +1498,135 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
         timerIntervalRef.current = null;
       }
     };
-  }, [gameState, timerState.activeColor, flaggedPlayer]);
+  }, [gameState, timerState.activeColor, flaggedPlayer, isLocalGame, playerColor, connectionState, timeControl.onDisconnect]);
 
-  // Handle flag (time ran out)
+  // Handle flag (time ran out) - the engine decides win or no-mating-material draw.
+  // Online the host calls it with a randomness commitment and both peers
+  // measure the material with the exchanged seed (see completeExchange).
   useEffect(() => {
-    if (flaggedPlayer && gameState) {
-      const winnerStatus = flaggedPlayer === 'white' ? 'black_wins' : 'white_wins';
-      setGameState(prev => {
-        if (!prev) return prev;
-        return {
-          ...prev,
-          gameStatus: winnerStatus as typeof prev.gameStatus,
-          result: winnerStatus,
-          resultReason: 'timeout'
-        };
-      });
+    if (!flaggedPlayer) return;
+    if (isLocalGame) {
+      setGameState(prev => prev && flagFall(prev, flaggedPlayer));
+      return;
+    }
+    if (!isHostRef.current) return; // The guest answers the host's 'flag' message
+    takeExchange(); // A move still waiting on its randomness doesn't count
+    const clock = timerStateRef.current;
+    const flag: GameMessage = {
+      type: 'flag',
+      color: flaggedPlayer,
+      whiteTimeMs: Math.max(0, clock.whiteTimeMs),
+      blackTimeMs: Math.max(0, clock.blackTimeMs)
+    };
+    startExchange('mover', flag).then(commitment => {
+      connectionRef.current?.send({ ...flag, commitment });
+    });
+  }, [flaggedPlayer, isLocalGame, takeExchange, startExchange]);
+
+  // Estimate round-trip time and clock offset to the peer while connected
+  useEffect(() => {
+    if (connectionState !== 'connected') return;
+    const ping = () => connectionRef.current?.send({ type: 'ping', sentAt: Date.now() });
+    ping();
+    const interval = setInterval(ping, PING_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [connectionState]);
+
+  // Stream the game to spectators: the host sends a snapshot whenever the
+  // position or the running clock changes
+  useEffect(() => {
+    if (!gameState || isLocalGame || !isHostRef.current) return;
+    const clock = timerStateRef.current;
+    const now = Date.now();
+    const running = !flaggedPlayer && !isGameOver(gameState)
+      && clocksRunning(isLocalGame, connectionState, timeControl.onDisconnect);
+    const until = running ? now : clock.lastTickTime; // Stopped clocks stopped at their last tick
+    const snapshot: SpectatorSnapshot = {
+      state: serializeState(gameState),
+      whiteTimeMs: remainingAt(clock, 'white', until),
+      blackTimeMs: remainingAt(clock, 'black', until),
+      runningClock: running ? clock.activeColor : null,
+      timeControl,
+      sentAt: now
+    };
+    connectionRef.current?.broadcast(snapshot);
+  }, [gameState, timerState.activeColor, flaggedPlayer, isLocalGame, connectionState, timeControl]);
+
+  // Back in the room of a resumed game - ask the peer for the live state
+  useEffect(() => {
+    if (connectionState === 'connected' && resumingRef.current) {
+      connectionRef.current?.send({ type: 'resume_request' });
     }
-  }, [flaggedPlayer, gameState]);
+  }, [connectionState]);
 
-  // Reset timer on rematch
+  // Save the game after every move so a crash or reload can resume it.
+  // Finished games are forgotten; so is one we're still resyncing.
   useEffect(() => {
-    if (gameState && timerState.activeColor === null && timerState.whiteTimeMs !== timeControl.minutes * 60 * 1000) {
-      // Game was reset (rematch), reinitialize timer
-      initializeTimer(timeControl.minutes, timeControl.increment);
+    if (!gameState || gameState.moveHistory.length === 0 || resumingRef.current) return;
+    if (isGameOver(gameState)) {
+      clearSavedGame();
+      return;
     }
-  }, [gameState, timerState.activeColor, timerState.whiteTimeMs, timeControl, initializeTimer]);
+    const clock = timerStateRef.current;
+    saveGame({
+      state: serializeState(gameState),
+      roomId: isLocalGame ? null : roomId,
+      playerColor,
+      isHost: isHostRef.current,
+      ...(!isLocalGame && slotTokenRef.current && { slotToken: slotTokenRef.current }),
+      aiOpponent,
+      timeControl,
+      whiteTimeMs: clock.whiteTimeMs,
+      blackTimeMs: clock.blackTimeMs
+    });
+  }, [gameState, isLocalGame, roomId, playerColor, aiOpponent, timeControl]);
 
   return {
     // State
-    gameState, playerColor, connectionState, roomId, error,
-    isMyTurn: gameState?.currentPlayer === playerColor,
+    gameState, playerColor: moverColor, connectionState, roomId, error,
+    isLocalGame,
+    aiOpponent,
+    aiThinking: !!aiOpponent && !!gameState && !isGameOver(gameState) && gameState.currentPlayer === aiOpponent.color,
+    isMyTurn: gameState?.currentPlayer === moverColor && !awaitingRandomness && !peerReconnecting,
     isConnected: connectionState === 'connected',
     isGameOver: gameState ? isGameOver(gameState) : false,
     quantumMode: gameState?.quantumMode ?? false,
     lastCollapse,
+    awaitingRandomness,
 
     // Split mode state
     splitMode,
     splitFrom,
     splitTo1,
+    splitRatio,
+
+    // Merge mode state
+    mergeMode,
+    mergeFrom1,
+    mergeFrom2,
 
     // Rematch state
     rematchRequested,
     rematchReceived,
 
+    // Draw offers, takebacks and abort
+    drawOffered,
+    drawOfferReceived,
+    takebackRequested: takebackRequested !== null,
+    takebackReceived: takebackReceived !== null,
+    canAbort: !!gameState && !isGameOver(gameState) && gameState.moveHistory.length < 2,
+
     // Peer disconnected state (game ends when peer disconnects)
     peerDisconnected,
+    peerReconnecting,
+    spectatorCount,
+
+    // Chat
+    chatMessages,
+    chatMuted,
+
+    // Unfinished game from an earlier session
+    savedGame,
 
     // Timer state
     timerState,
@@ -633,9 +1634,13 @@ export function useChessGame({ serverUrl }: UseChessGameOptions) {
     flaggedPlayer,
 
     // Actions
-    createRoom, joinRoom, executeMove, executeSplitMove, disconnect,
-    toggleSplitMode, handleSplitSelection, toggleQuantumMode, resign,
-    requestRematch, acceptRematch, declineRematch
+    createRoom, joinRoom, startLocalGame, importPGN, executeMove, executeSplitMove, executeMergeMove, disconnect,
+    toggleSplitMode, handleSplitSelection, setSplitRatio, toggleMergeMode, handleMergeSelection,
+    toggleQuantumMode, resign,
+    offerDraw, acceptDraw, declineDraw, requestTakeback, acceptTakeback, declineTakeback, abortGame,
+    requestRematch, acceptRematch, declineRematch,
+    resumeGame, discardSavedGame,
+    sendChat, toggleChatMute
   };
 }
 
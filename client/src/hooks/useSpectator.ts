@@ -0,0 +1,128 @@
+/**
+ * Spectator Hook - watch a live online game, read-only
+ * Snapshots come from the host through the signaling server; between
+ * them the running clock counts down here.
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { deserializeState, isGameOver, isSerializedGameState, type QuantumGameState } from '../engine/ChessEngine';
+import { SpectatorConnection, type ConnectionState } from '../networking';
+import type { SpectatorSnapshot, TimeControl, TimerState } from './useChessGame';
+
+interface UseSpectatorOptions {
+  serverUrl: string;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Snapshots are relayed by the server from whoever hosts - check the shape
+function isSnapshot(data: unknown): data is SpectatorSnapshot {
+  if (typeof data !== 'object' || data === null) return false;
+  const snapshot = data as Partial<SpectatorSnapshot>;
+  const timeControl = snapshot.timeControl;
+  return isSerializedGameState(snapshot.state)
+    && isFiniteNumber(snapshot.whiteTimeMs)
+    && isFiniteNumber(snapshot.blackTimeMs)
+    && isFiniteNumber(snapshot.sentAt)
+    && (snapshot.runningClock === null || snapshot.runningClock === 'white' || snapshot.runningClock === 'black')
+    && typeof timeControl === 'object' && timeControl !== null
+    && isFiniteNumber(timeControl.minutes) && isFiniteNumber(timeControl.increment);
+}
+
+export function useSpectator({ serverUrl }: UseSpectatorOptions) {
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const [gameState, setGameState] = useState<QuantumGameState | null>(null);
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [timerState, setTimerState] = useState<TimerState>({
+    whiteTimeMs: 0,
+    blackTimeMs: 0,
+    activeColor: null,
+    lastTickTime: 0
+  });
+  const connectionRef = useRef<SpectatorConnection | null>(null);
+
+  const handleSnapshot = useCallback((snapshot: unknown) => {
+    if (!isSnapshot(snapshot)) {
+      console.warn('[Spectator] Ignoring malformed snapshot');
+      return;
+    }
+    let state: QuantumGameState;
+    try {
+      state = deserializeState(snapshot.state);
+    } catch (err) {
+      console.warn('[Spectator] Ignoring snapshot with a bad game state:', err);
+      return;
+    }
+    setGameState(state);
+    setTimeControl(snapshot.timeControl);
+    // A snapshot the server kept for us may be a while old - count from when
+    // the host took it (as far as our clocks agree)
+    const now = Date.now();
+    setTimerState({
+      whiteTimeMs: snapshot.whiteTimeMs,
+      blackTimeMs: snapshot.blackTimeMs,
+      activeColor: snapshot.runningClock,
+      lastTickTime: Math.min(snapshot.sentAt, now)
+    });
+  }, []);
+
+  // Start watching a room
+  const watch = useCallback((targetRoomId: string) => {
+    connectionRef.current?.disconnect();
+    setRoomId(targetRoomId);
+    setGameState(null);
+    setTimeControl(null);
+    connectionRef.current = new SpectatorConnection({
+      onStateChange: setConnectionState,
+      onSnapshot: handleSnapshot
+    });
+    connectionRef.current.connect(serverUrl, targetRoomId);
+  }, [serverUrl, handleSnapshot]);
+
+  const stopWatching = useCallback(() => {
+    connectionRef.current?.disconnect();
+    connectionRef.current = null;
+    setRoomId(null);
+    setGameState(null);
+    setTimeControl(null);
+    setConnectionState('disconnected');
+  }, []);
+
+  // Close the socket when the app goes away
+  useEffect(() => () => connectionRef.current?.disconnect(), []);
+
+  // Count down the running clock between snapshots (the host calls flags)
+  useEffect(() => {
+    if (!gameState || isGameOver(gameState) || timerState.activeColor === null || connectionState !== 'connected') {
+      return;
+    }
+    const interval = setInterval(() => {
+      setTimerState(prev => {
+        if (prev.activeColor === null) return prev;
+        const now = Date.now();
+        const elapsed = now - prev.lastTickTime;
+        return {
+          ...prev,
+          whiteTimeMs: prev.activeColor === 'white' ? Math.max(0, prev.whiteTimeMs - elapsed) : prev.whiteTimeMs,
+          blackTimeMs: prev.activeColor === 'black' ? Math.max(0, prev.blackTimeMs - elapsed) : prev.blackTimeMs,
+          lastTickTime: now
+        };
+      });
+    }, 100);
+    return () => clearInterval(interval);
+  }, [gameState, timerState.activeColor, connectionState]);
+
+  return {
+    roomId,
+    connectionState,
+    gameState,
+    timeControl,
+    timerState,
+    isWatching: roomId !== null,
+    watch,
+    stopWatching
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Spectator Connection
+ * Watches a room over the signaling WebSocket. Spectators never join the
+ * P2P game: the host streams snapshots through the server, which also hands
+ * the latest one to anyone who starts watching.
+ */
+
+import type { ConnectionState, SignalingMessage } from './WebRTCConnection';
+
+export interface SpectatorCallbacks {
+  onStateChange: (state: ConnectionState) => void; // 'reconnecting' while the host is away
+  onSnapshot: (data: unknown) => void;
+}
+
+export class SpectatorConnection {
+  private ws: WebSocket | null = null;
+  private callbacks: SpectatorCallbacks;
+
+  constructor(callbacks: SpectatorCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  connect(serverUrl: string, roomId: string): void {
+    this.callbacks.onStateChange('connecting');
+
+    const wsUrl = `${serverUrl.replace('http', 'ws')}/ws/${roomId}?role=spectator`;
+    this.ws = new WebSocket(wsUrl);
+
+    this.ws.onmessage = (event) => {
+      let message: SignalingMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        console.error('[Spectator] Failed to parse message');
+        return;
+      }
+      switch (message.type) {
+        case 'connected':
+          console.log('[Spectator] Watching room', roomId);
+          this.callbacks.onStateChange('connected');
+          break;
+
+        case 'spectate':
+          // A snapshot also means the host is (back) in the room
+          this.callbacks.onStateChange('connected');
+          this.callbacks.onSnapshot(message.data);
+          break;
+
+        case 'peer_disconnected':
+          // Host left - it may come back and carry on streaming
+          this.callbacks.onStateChange('reconnecting');
+          break;
+      }
+    };
+
+    this.ws.onerror = (error) => {
+      console.error('[Spectator] Error:', error);
+    };
+
+    this.ws.onclose = (event) => {
+      console.log('[Spectator] Disconnected:', event.reason || event.code);
+      this.ws = null;
+      // Closed by the server (room not found, too many spectators) or the network
+      this.callbacks.onStateChange(event.code === 1000 ? 'disconnected' : 'failed');
+    };
+  }
+
+  disconnect(): void {
+    if (!this.ws) return;
+    this.ws.onclose = null;
+    this.ws.close(1000);
+    this.ws = null;
+  }
+}
@@ -1,16 +1,27 @@
 /**
  * WebRTC P2P Connection Manager
  * Handles peer connection, data channels, and signaling
+ *
+ * A connection that drops mid-game is not given up at once: the peer has
+ * RECONNECT_GRACE_MS to come back. Both sides keep (or reopen) their
+ * signaling socket to the room, and the host renegotiates - an ICE restart
+ * while the old connection may recover, a fresh one once it's gone.
  */
 
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'failed';
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
 
 export interface SignalingMessage {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'peer_joined' | 'peer_disconnected' | 'connected';
+  type: 'offer' | 'answer' | 'ice-candidate' | 'peer_joined' | 'peer_disconnected' | 'connected'
+    | 'spectate' | 'spectators';
   sdp?: string;
+  restart?: boolean; // Offer restarts ICE on the existing connection
   candidate?: RTCIceCandidateInit;
-  role?: 'host' | 'guest';
+  role?: 'host' | 'guest' | 'spectator';
+  token?: string; // Secret for reclaiming our slot after a drop (connected)
   game_seed?: number;
+  data?: unknown; // Game snapshot for spectators (spectate)
+  spectators?: number; // Spectators watching (connected)
+  count?: number; // Spectators watching (spectators)
 }
 
 export interface WebRTCCallbacks {
@@ -18,8 +29,18 @@ export interface WebRTCCallbacks {
   onMessage: (data: unknown) => void;
   onGameSeed: (seed: number) => void;
   onPeerDisconnected?: () => void;  // Called when peer disconnects (game ends)
+  onPeerReconnecting?: () => void;  // Connection dropped - waiting for the peer to come back
+  onPeerReconnected?: () => void;   // Data channel is open again after a drop
+  onSpectatorCount?: (count: number) => void;
+  onSlotToken?: (token: string) => void; // Our slot's reconnect token - keep it to resume later
 }
 
+// How long a dropped peer has to reconnect before the game is lost
+export const RECONNECT_GRACE_MS = 30000;
+
+// Pause between attempts to reopen the signaling socket
+const SIGNALING_RETRY_MS = 2000;
+
 // Free public STUN servers
 const ICE_SERVERS: RTCConfiguration = {
   iceServers: [
@@ -37,21 +58,41 @@ export class WebRTCConnection {
   private isHost: boolean = false;
   private pendingCandidates: RTCIceCandidateInit[] = [];
   private hasNotifiedDisconnect: boolean = false; // Prevent duplicate disconnect notifications
-  private isConnected: boolean = false; // Track if we ever successfully connected
+  private isConnected: boolean = false; // Data channel is open
+  private wasConnected: boolean = false; // Track if we ever successfully connected
+  private reconnecting: boolean = false; // Dropped mid-game, waiting for the peer
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed: boolean = false; // disconnect() was called
+  private wsUrl: string = '';
+  private role: 'host' | 'guest' | null = null; // Slot to ask for when rejoining the room
+  private token: string | null = null; // Proves the slot is ours when rejoining
 
   constructor(callbacks: WebRTCCallbacks) {
     this.callbacks = callbacks;
   }
 
   /**
-   * Connect to signaling server and establish P2P connection
+   * Connect to signaling server and establish P2P connection. A player
+   * rejoining a room passes its old role and slot token to get the same
+   * slot back.
    */
-  async connect(serverUrl: string, roomId: string): Promise<void> {
+  async connect(serverUrl: string, roomId: string, role?: 'host' | 'guest', token?: string): Promise<void> {
     this.callbacks.onStateChange('connecting');
+    this.wsUrl = `${serverUrl.replace('http', 'ws')}/ws/${roomId}`;
+    this.role = role ?? null;
+    this.token = token ?? null;
+    this.openSignaling();
+  }
 
-    // Connect to signaling WebSocket
-    const wsUrl = `${serverUrl.replace('http', 'ws')}/ws/${roomId}`;
-    this.ws = new WebSocket(wsUrl);
+  // Connect to signaling WebSocket - again after it drops mid-game
+  private openSignaling(): void {
+    this.retryTimer = null;
+    const params = new URLSearchParams();
+    if (this.role) params.set('role', this.role);
+    if (this.token) params.set('token', this.token);
+    const query = params.toString();
+    this.ws = new WebSocket(query ? `${this.wsUrl}?${query}` : this.wsUrl);
 
     this.ws.onopen = () => {
       console.log('[WS] Connected to signaling server');
@@ -64,17 +105,19 @@ export class WebRTCConnection {
 
     this.ws.onerror = (error) => {
       console.error('[WS] Error:', error);
-      this.callbacks.onStateChange('failed');
+      if (!this.wasConnected) {
+        this.callbacks.onStateChange('failed');
+      }
     };
 
-    this.ws.onclose = () => {
+    this.ws.onclose = (event) => {
       console.log('[WS] Disconnected from signaling server');
-      // If WebSocket closes while we were connected, it means signaling died
-      // The DataChannel might still work for a bit, but notify anyway
-      // (notifyDisconnect is idempotent, so this is safe)
-      if (this.isConnected) {
-        this.notifyDisconnect();
-      }
+      this.ws = null;
+      // The data channel may well outlive signaling, and renegotiating after
+      // a drop needs it - keep rejoining the room while the game lasts.
+      // A room that no longer exists (4004) can't be rejoined.
+      if (this.closed || !this.wasConnected || event.code === 4004) return;
+      this.retryTimer = setTimeout(() => this.openSignaling(), SIGNALING_RETRY_MS);
     };
   }
 
@@ -84,9 +127,17 @@ export class WebRTCConnection {
     switch (message.type) {
       case 'connected':
         this.isHost = message.role === 'host';
+        this.role = this.isHost ? 'host' : 'guest';
+        if (message.token) {
+          this.token = message.token;
+          this.callbacks.onSlotToken?.(message.token);
+        }
         if (message.game_seed) {
           this.callbacks.onGameSeed(message.game_seed);
         }
+        if (message.spectators !== undefined) {
+          this.callbacks.onSpectatorCount?.(message.spectators);
+        }
         if (this.isHost) {
           console.log('[P2P] Waiting for peer to join...');
         }
@@ -96,13 +147,17 @@ export class WebRTCConnection {
         if (message.game_seed) {
           this.callbacks.onGameSeed(message.game_seed);
         }
+        // Peer only reopened its signaling socket - our channel still works
+        if (this.dataChannel?.readyState === 'open') break;
         // Host initiates P2P connection
         await this.createPeerConnection();
         await this.createOffer();
         break;
 
       case 'offer':
-        await this.createPeerConnection();
+        if (!message.restart || !this.pc) {
+          await this.createPeerConnection();
+        }
         await this.handleOffer(message.sdp!);
         break;
 
@@ -114,15 +169,23 @@ export class WebRTCConnection {
         await this.handleIceCandidate(message.candidate!);
         break;
 
+      case 'spectators':
+        this.callbacks.onSpectatorCount?.(message.count ?? 0);
+        break;
+
       case 'peer_disconnected':
-        // Peer has disconnected - game ends
+        // Peer left signaling - unless our channel still works, wait for it to come back
         console.log('[P2P] Peer disconnected (via signaling server)');
-        this.notifyDisconnect();
+        if (this.dataChannel?.readyState !== 'open') {
+          this.peerLost(true);
+        }
         break;
     }
   }
 
   private async createPeerConnection(): Promise<void> {
+    // A peer that rejoins gets a fresh connection - drop the old one quietly
+    this.closePeerConnection();
     this.pc = new RTCPeerConnection(ICE_SERVERS);
 
     this.pc.onicecandidate = (event) => {
@@ -138,19 +201,23 @@ export class WebRTCConnection {
       const state = this.pc?.connectionState;
       console.log('[P2P] Connection state:', state);
       if (state === 'connected') {
-        this.callbacks.onStateChange('connected');
-      } else if (state === 'failed') {
-        this.callbacks.onStateChange('failed');
-        // Connection failed - notify if we were connected
-        if (this.isConnected) {
-          this.notifyDisconnect();
+        // An ICE restart brought the link back with the data channel still open
+        // (otherwise the channel opening reports the connection)
+        if (this.reconnecting && this.dataChannel?.readyState === 'open') {
+          this.channelReady();
         }
-      } else if (state === 'disconnected' || state === 'closed') {
-        // Peer connection lost - notify if we were connected
-        if (this.isConnected) {
-          this.notifyDisconnect();
+      } else if (!this.wasConnected) {
+        // Setup failed before the game started
+        if (state === 'failed') {
+          this.callbacks.onStateChange('failed');
+        } else if (state === 'disconnected' || state === 'closed') {
+          this.callbacks.onStateChange('disconnected');
         }
-        this.callbacks.onStateChange('disconnected');
+      } else if (state === 'disconnected') {
+        // Often temporary - an ICE restart may recover it
+        this.peerLost(false);
+      } else if (state === 'failed' || state === 'closed') {
+        this.peerLost(true);
       }
     };
 
@@ -174,8 +241,7 @@ export class WebRTCConnection {
 
     this.dataChannel.onopen = () => {
       console.log('[DataChannel] Open');
-      this.isConnected = true;
-      this.callbacks.onStateChange('connected');
+      this.channelReady();
     };
 
     this.dataChannel.onmessage = (event) => {
@@ -189,12 +255,12 @@ export class WebRTCConnection {
 
     this.dataChannel.onclose = () => {
       console.log('[DataChannel] Closed');
-      // When data channel closes, the connection is lost - notify about peer disconnect
-      // Only notify if we were previously connected (not during setup failures)
-      if (this.isConnected) {
-        this.notifyDisconnect();
+      // Mid-game the peer gets its grace period; setup failures are just reported
+      if (this.wasConnected) {
+        this.peerLost(true);
+      } else {
+        this.callbacks.onStateChange('disconnected');
       }
-      this.callbacks.onStateChange('disconnected');
     };
 
     this.dataChannel.onerror = (error) => {
@@ -202,15 +268,16 @@ export class WebRTCConnection {
     };
   }
 
-  private async createOffer(): Promise<void> {
+  private async createOffer(iceRestart: boolean = false): Promise<void> {
     if (!this.pc) return;
 
-    const offer = await this.pc.createOffer();
+    const offer = await this.pc.createOffer({ iceRestart });
     await this.pc.setLocalDescription(offer);
 
     this.sendSignaling({
       type: 'offer',
-      sdp: offer.sdp
+      sdp: offer.sdp,
+      ...(iceRestart && { restart: true })
     });
   }
 
@@ -262,6 +329,86 @@ export class WebRTCConnection {
     }
   }
 
+  private closePeerConnection(): void {
+    if (this.dataChannel) {
+      this.dataChannel.onopen = null;
+      this.dataChannel.onmessage = null;
+      this.dataChannel.onclose = null;
+      this.dataChannel.onerror = null;
+      this.dataChannel.close();
+    }
+    if (this.pc) {
+      this.pc.onicecandidate = null;
+      this.pc.onconnectionstatechange = null;
+      this.pc.ondatachannel = null;
+      this.pc.close();
+    }
+    this.dataChannel = null;
+    this.pc = null;
+    this.pendingCandidates = [];
+    this.isConnected = false;
+  }
+
+  // Data channel is usable - first time, or back after a drop
+  private channelReady(): void {
+    this.isConnected = true;
+    this.wasConnected = true;
+    this.hasNotifiedDisconnect = false; // The next loss is news again
+    this.callbacks.onStateChange('connected');
+
+    if (!this.reconnecting) return;
+    this.reconnecting = false;
+    if (this.graceTimer) clearTimeout(this.graceTimer);
+    this.graceTimer = null;
+    console.log('[P2P] Peer reconnected');
+    this.callbacks.onPeerReconnected?.();
+  }
+
+  /**
+   * The link to the peer dropped mid-game (or may have - see 'disconnected').
+   * The peer gets a grace period to come back before we report it gone.
+   * Meanwhile the host renegotiates: an ICE restart while the old connection
+   * may recover, a fresh connection once it's gone - and again whenever the
+   * peer rejoins the room (peer_joined).
+   */
+  private peerLost(connectionGone: boolean): void {
+    if (this.closed) return;
+    if (!this.wasConnected) {
+      // Left before the game ever got going
+      this.notifyDisconnect();
+      return;
+    }
+    this.isConnected = false;
+
+    if (!this.reconnecting) {
+      console.log('[P2P] Peer lost - waiting for it to reconnect');
+      this.reconnecting = true;
+      this.callbacks.onStateChange('reconnecting');
+      this.callbacks.onPeerReconnecting?.();
+      this.graceTimer = setTimeout(() => {
+        // Still listening - a peer that turns up late can pick the game up again
+        this.graceTimer = null;
+        this.notifyDisconnect();
+        this.callbacks.onStateChange('disconnected');
+      }, RECONNECT_GRACE_MS);
+    }
+
+    if (this.isHost) {
+      this.renegotiate(!connectionGone).catch(err => console.error('[P2P] Renegotiation failed:', err));
+    }
+  }
+
+  private async renegotiate(iceRestart: boolean): Promise<void> {
+    // Without signaling the offer can't get through - peer_joined retries
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    if (iceRestart && this.pc) {
+      await this.createOffer(true);
+      return;
+    }
+    await this.createPeerConnection();
+    await this.createOffer();
+  }
+
   /**
    * Notify about peer disconnect exactly once
    * This prevents duplicate notifications from multiple disconnect sources
@@ -285,6 +432,14 @@ export class WebRTCConnection {
     }
   }
 
+  /**
+   * Send a game snapshot to the room's spectators. They watch through the
+   * signaling server, so this goes over the WebSocket (host only).
+   */
+  broadcast(data: unknown): void {
+    this.sendSignaling({ type: 'spectate', data });
+  }
+
   /**
    * Close all connections
    * This is for intentional disconnection (user action), not peer failure
@@ -292,6 +447,11 @@ export class WebRTCConnection {
   disconnect(): void {
     // Don't notify on intentional disconnect
     this.hasNotifiedDisconnect = true;
+    this.closed = true;
+    if (this.graceTimer) clearTimeout(this.graceTimer);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.graceTimer = null;
+    this.retryTimer = null;
     this.dataChannel?.close();
     this.pc?.close();
     this.ws?.close();
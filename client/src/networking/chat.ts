@@ -0,0 +1,31 @@
+/**
+ * Chat limits for messages over the data channel
+ *
+ * Both directions are limited: we don't send faster than the limit, and
+ * messages from a peer that does are dropped, so a modified client can't
+ * flood the other player.
+ */
+
+export const CHAT_MAX_LENGTH = 200;
+
+// At most CHAT_RATE_LIMIT messages in any CHAT_RATE_WINDOW_MS
+export const CHAT_RATE_LIMIT = 5;
+export const CHAT_RATE_WINDOW_MS = 10000;
+
+// Preset messages offered as one-click buttons
+export const QUICK_MESSAGES = ['👋 Good luck!', '⚛️ Nice collapse!', '😮 Wow', '🎲 Unlucky', '🤝 Good game', '🔄 Rematch?'];
+
+// Trimmed and capped message text, or null if there's nothing to send
+export function cleanChatText(text: string): string | null {
+  const trimmed = text.trim().slice(0, CHAT_MAX_LENGTH);
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Times of recent messages with one sent at 'now' added, or null if that
+ * message would go over the rate limit
+ */
+export function takeChatSlot(recent: number[], now: number): number[] | null {
+  const inWindow = recent.filter(time => now - time < CHAT_RATE_WINDOW_MS);
+  return inWindow.length < CHAT_RATE_LIMIT ? [...inWindow, now] : null;
+}
@@ -0,0 +1,64 @@
+/**
+ * Clock synchronization helpers for the chess clocks of two peers
+ *
+ * Every move message carries the mover's remaining time and when it was
+ * sent. Ping/pong on the data channel estimates the round-trip time and
+ * the offset between the two machines' clocks, so the receiver can tell
+ * how long a move was in flight. The rules built on this:
+ *  - Each player reports their own time, but the receiver never credits
+ *    more than it counted down itself plus the move's transit time
+ *    (capped), so nobody can add time to their clock.
+ *  - The receiver's clock starts when the move arrives.
+ *  - The host is the referee for flag falls: its own flag falls at zero,
+ *    the guest's once the guest is past zero by the lag allowance (a move
+ *    may still be in flight). The guest waits for the host's verdict.
+ */
+
+// Most time a move may be credited for lag
+export const MAX_LAG_COMPENSATION_MS = 1000;
+
+export const PING_INTERVAL_MS = 5000;
+
+// Smoothing factor for new samples (like TCP's SRTT)
+const SAMPLE_WEIGHT = 0.2;
+
+export interface ClockSync {
+  rttMs: number; // Smoothed round-trip time
+  offsetMs: number; // Peer's clock minus ours
+}
+
+/**
+ * Fold one ping/pong into the estimate. The peer stamped 'peerTime'
+ * roughly halfway through the round trip.
+ */
+export function updateClockSync(
+  sync: ClockSync | null,
+  sentAt: number,
+  peerTime: number,
+  receivedAt: number
+): ClockSync {
+  const rttMs = Math.max(0, receivedAt - sentAt);
+  const offsetMs = peerTime - (sentAt + receivedAt) / 2;
+  if (!sync) return { rttMs, offsetMs };
+  return {
+    rttMs: sync.rttMs + (rttMs - sync.rttMs) * SAMPLE_WEIGHT,
+    offsetMs: sync.offsetMs + (offsetMs - sync.offsetMs) * SAMPLE_WEIGHT
+  };
+}
+
+// How long the peer's moves may take to reach us - half a round trip, capped.
+// Unmeasured links get the full allowance.
+export function lagAllowance(sync: ClockSync | null): number {
+  return sync ? Math.min(MAX_LAG_COMPENSATION_MS, sync.rttMs / 2) : MAX_LAG_COMPENSATION_MS;
+}
+
+/**
+ * Time a message stamped 'sentAt' by the peer spent in flight, from the
+ * clock offset. Capped, so a bad timestamp can't buy more than
+ * MAX_LAG_COMPENSATION_MS.
+ */
+export function transitTime(sync: ClockSync | null, sentAt: number | undefined, receivedAt: number): number {
+  if (!sync || sentAt === undefined) return lagAllowance(sync);
+  const transit = receivedAt - (sentAt - sync.offsetMs);
+  return Math.min(Math.max(0, transit), MAX_LAG_COMPENSATION_MS);
+}
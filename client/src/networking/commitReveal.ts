@@ -0,0 +1,44 @@
+/**
+ * Commit-reveal helpers for fair collapse randomness between peers
+ *
+ * Each peer picks a secret nonce and first sends only its SHA-256 hash.
+ * Once both commitments are known, both nonces are revealed and checked,
+ * and the collapse seed is derived from both - so neither peer alone can
+ * choose a favourable measurement outcome.
+ */
+
+import { mixSeed } from '../engine/rng';
+
+// 128-bit random nonce as hex
+export function createNonce(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// SHA-256 commitment to a nonce (hex)
+export async function commitNonce(nonce: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(nonce));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Does a revealed nonce match the commitment sent earlier?
+export async function verifyReveal(nonce: string, commitment: string): Promise<boolean> {
+  return /^[0-9a-f]{32}$/.test(nonce) && (await commitNonce(nonce)) === commitment;
+}
+
+// Fold a hex nonce into one 32-bit value
+function foldNonce(nonce: string): number {
+  let folded = 0;
+  for (let i = 0; i < nonce.length; i += 8) {
+    folded = mixSeed(folded, parseInt(nonce.slice(i, i + 8), 16));
+  }
+  return folded;
+}
+
+/**
+ * Collapse seed for a move from both revealed nonces and the move index
+ */
+export function combineNonces(moverNonce: string, responderNonce: string, moveIndex: number): number {
+  return mixSeed(foldNonce(moverNonce) ^ foldNonce(responderNonce), moveIndex);
+}
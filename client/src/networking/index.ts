@@ -1,3 +1,12 @@
-export { WebRTCConnection } from './WebRTCConnection';
+export { WebRTCConnection, RECONNECT_GRACE_MS } from './WebRTCConnection';
 export type { ConnectionState, SignalingMessage, WebRTCCallbacks } from './WebRTCConnection';
 
+export { SpectatorConnection } from './SpectatorConnection';
+export type { SpectatorCallbacks } from './SpectatorConnection';
+
+export { createNonce, commitNonce, verifyReveal, combineNonces } from './commitReveal';
+
+export { updateClockSync, lagAllowance, transitTime, PING_INTERVAL_MS, MAX_LAG_COMPENSATION_MS } from './clockSync';
+export type { ClockSync } from './clockSync';
+
+export { cleanChatText, takeChatSlot, QUICK_MESSAGES, CHAT_MAX_LENGTH, CHAT_RATE_LIMIT, CHAT_RATE_WINDOW_MS } from './chat';
@@ -0,0 +1,2 @@
+export { saveGame, loadSavedGame, clearSavedGame } from './savedGame';
+export type { SavedGame } from './savedGame';
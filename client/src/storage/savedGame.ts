@@ -0,0 +1,76 @@
+/**
+ * Saved game - crash recovery for the game in progress
+ *
+ * After every move the game is written to localStorage: the serialized
+ * game state plus everything needed to pick it up again (room, colour,
+ * host or guest, opponent, time control and both clocks). On reload the
+ * app offers to resume it; online, the peer is asked to resync.
+ */
+
+import { isSerializedGameState, type SerializedGameState, type Player } from '../engine/ChessEngine';
+import type { AIOpponent, TimeControl } from '../hooks/useChessGame';
+
+const STORAGE_KEY = 'quantum-chess:saved-game';
+
+// Bump when the saved shape changes - older saves are dropped
+const SAVE_VERSION = 1;
+
+export interface SavedGame {
+  version: number;
+  savedAt: number; // Date.now() when written
+  state: SerializedGameState;
+  roomId: string | null; // null for a game on this device
+  playerColor: Player;
+  isHost: boolean;
+  slotToken?: string; // Reclaims our slot in the room (online games)
+  aiOpponent: AIOpponent | null;
+  timeControl: TimeControl;
+  whiteTimeMs: number;
+  blackTimeMs: number;
+}
+
+export function saveGame(game: Omit<SavedGame, 'version' | 'savedAt'>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...game, version: SAVE_VERSION, savedAt: Date.now() }));
+  } catch (err) {
+    // Private mode or a full quota - the game goes on unsaved
+    console.warn('[Storage] Could not save game:', err);
+  }
+}
+
+// The saved game, or null if there is none or it can't be read
+export function loadSavedGame(): SavedGame | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const saved: unknown = JSON.parse(raw);
+    return isSavedGame(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+// Storage can hold anything - an older version, or a hand-edited entry
+function isSavedGame(data: unknown): data is SavedGame {
+  if (typeof data !== 'object' || data === null) return false;
+  const saved = data as Partial<SavedGame>;
+  const timeControl = saved.timeControl;
+  return saved.version === SAVE_VERSION
+    && isSerializedGameState(saved.state)
+    && (saved.roomId === null || typeof saved.roomId === 'string')
+    && (saved.playerColor === 'white' || saved.playerColor === 'black')
+    && typeof saved.isHost === 'boolean'
+    && (saved.slotToken === undefined || typeof saved.slotToken === 'string')
+    && typeof saved.whiteTimeMs === 'number'
+    && typeof saved.blackTimeMs === 'number'
+    && typeof timeControl === 'object' && timeControl !== null
+    && typeof timeControl.minutes === 'number' && typeof timeControl.increment === 'number';
+}
+
+export function clearSavedGame(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+}
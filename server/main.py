@@ -1,37 +1,62 @@
 """
 Quantum Chess Signaling Server
 Lightweight FastAPI server for WebRTC signaling.
-After P2P connection is established, server is no longer involved.
+After P2P connection is established, server is no longer involved -
+except to pass the host's game snapshots on to spectators.
 """
 
 import secrets
-from typing import Dict
+from typing import Dict, Literal, Optional
 from datetime import datetime, timedelta
 from contextlib import asynccontextmanager
 
 from fastapi import FastAPI, WebSocket, WebSocketDisconnect, HTTPException
 from fastapi.middleware.cors import CORSMiddleware
-from pydantic import BaseModel
+from pydantic import BaseModel, Field
 
 
 # Room storage (in-memory, for simplicity)
 rooms: Dict[str, "Room"] = {}
 
+# Named quantum rule presets (see client/src/engine/rulesets.ts)
+RulesetVariant = Literal["classic", "open", "entangled", "observer"]
+
+# Starting setups (see client/src/engine/setups.ts) - Chess960 follows the game seed
+StartingSetup = Literal["standard", "chess960", "custom"]
+
+# What the clocks do while a dropped peer is reconnecting
+DisconnectClockPolicy = Literal["pause", "run"]
+
+# Most spectators one room will stream to
+MAX_SPECTATORS = 50
+
 
 class Room:
     """Represents a game room with two players"""
     def __init__(self, room_id: str, host_seed: int, max_superpositions: int = 2, is_public: bool = False,
-                 time_control_minutes: int = 5, time_control_increment: int = 0):
+                 time_control_minutes: int = 5, time_control_increment: int = 0,
+                 time_control_on_disconnect: str = "pause",
+                 allow_uneven_splits: bool = False, variant: str = "classic",
+                 setup: str = "standard", start_position: Optional[str] = None):
         self.room_id = room_id
         self.host_seed = host_seed
         self.max_superpositions = max_superpositions
+        self.allow_uneven_splits = allow_uneven_splits  # Splits other than 50/50 (e.g. 25/75)
+        self.variant = variant  # Rules preset - joiners play by the same rules
+        self.setup = setup  # Starting setup: standard, chess960 or custom
+        self.start_position = start_position  # FEN/QFEN of a custom setup
         self.is_public = is_public  # If True, room appears in open games lobby
         self.time_control_minutes = time_control_minutes  # Starting time in minutes
         self.time_control_increment = time_control_increment  # Increment per move in seconds
+        self.time_control_on_disconnect = time_control_on_disconnect  # Clocks pause or run while reconnecting
         self.guest_seed: int | None = None
         self.host_ws: WebSocket | None = None
         self.guest_ws: WebSocket | None = None
+        self.spectators: list[WebSocket] = []
+        self.spectator_snapshot: dict | None = None  # Host's latest snapshot, for new spectators
+        self.tokens: dict[str, str] = {}  # Slot ("host"/"guest") -> secret its player reclaims it with
         self.created_at = datetime.now()
+        self.last_activity = self.created_at  # Last join or player message - idle rooms expire
 
     @property
     def is_full(self) -> bool:
@@ -49,6 +74,19 @@ class Room:
         # XOR seeds for shared randomness
         return self.host_seed ^ self.guest_seed
 
+    def touch(self) -> None:
+        """Note that the room is in use."""
+        self.last_activity = datetime.now()
+
+    def may_claim(self, slot: str, token: Optional[str]) -> bool:
+        """A slot nobody has held yet is open; after that only its token opens it."""
+        issued = self.tokens.get(slot)
+        return issued is None or (token is not None and secrets.compare_digest(token, issued))
+
+    def issue_token(self, slot: str) -> str:
+        """The slot's reconnect token, created when its first player joins."""
+        return self.tokens.setdefault(slot, secrets.token_urlsafe(16))
+
     def get_other_ws(self, ws: WebSocket) -> WebSocket | None:
         if ws == self.host_ws:
             return self.guest_ws
@@ -56,15 +94,33 @@ class Room:
             return self.host_ws
         return None
 
+    async def broadcast(self, message: dict, sockets: list[WebSocket]) -> None:
+        """Send to each socket, skipping any that already went away."""
+        for ws in list(sockets):
+            try:
+                await ws.send_json(message)
+            except Exception:
+                pass
+
+    async def notify_spectator_count(self) -> None:
+        """Tell both players how many people are watching."""
+        players = [ws for ws in (self.host_ws, self.guest_ws) if ws]
+        await self.broadcast({"type": "spectators", "count": len(self.spectators)}, players)
+
 
 class TimeControlModel(BaseModel):
     minutes: int = 5
     increment: int = 0
+    onDisconnect: DisconnectClockPolicy = "pause"
 
 
 class CreateRoomRequest(BaseModel):
     seed: int
     maxSuperpositions: int = 2  # 1-7
+    allowUnevenSplits: bool = False
+    variant: RulesetVariant = "classic"
+    setup: StartingSetup = "standard"
+    startPosition: Optional[str] = Field(default=None, max_length=1000)  # Custom setup only
     isPublic: bool = False  # If True, room appears in open games lobby
     timeControl: TimeControlModel = TimeControlModel()
 
@@ -73,8 +129,13 @@ class CreateRoomResponse(BaseModel):
     room_id: str
     player_color: str
     max_superpositions: int
+    allow_uneven_splits: bool
+    variant: str
+    setup: str
+    start_position: Optional[str] = None
     time_control_minutes: int
     time_control_increment: int
+    time_control_on_disconnect: str
 
 
 class JoinRoomRequest(BaseModel):
@@ -87,14 +148,22 @@ class JoinRoomResponse(BaseModel):
     player_color: str
     game_seed: int
     max_superpositions: int
+    allow_uneven_splits: bool
+    variant: str
+    setup: str
+    start_position: Optional[str] = None
     time_control_minutes: int
     time_control_increment: int
+    time_control_on_disconnect: str
 
 
 class OpenGameInfo(BaseModel):
     """Info about an open game in the lobby"""
     room_id: str
     max_superpositions: int
+    allow_uneven_splits: bool
+    variant: str
+    setup: str
     time_control: str  # Display format like "5+0"
     created_at: str  # ISO format
     waiting_seconds: int  # How long host has been waiting
@@ -106,14 +175,14 @@ def generate_room_id() -> str:
 
 
 def cleanup_old_rooms():
-    """Remove rooms older than 1 hour or where both players have disconnected"""
+    """Remove rooms idle for 1 hour or where both players have disconnected"""
     now = datetime.now()
     cutoff = now - timedelta(hours=1)
     expired = []
 
     for rid, room in rooms.items():
-        # Remove if older than 1 hour
-        if room.created_at < cutoff:
+        # Remove if nothing happened for 1 hour - a long game stays
+        if room.last_activity < cutoff:
             expired.append(rid)
             continue
 
@@ -183,6 +252,9 @@ async def create_room(request: CreateRoomRequest):
     while room_id in rooms:
         room_id = generate_room_id()
 
+    if request.setup == "custom" and not request.startPosition:
+        raise HTTPException(status_code=400, detail="Custom setup needs a starting position")
+
     # Clamp maxSuperpositions to 1-7
     max_sup = max(1, min(7, request.maxSuperpositions))
     # Clamp time control values
@@ -192,7 +264,12 @@ async def create_room(request: CreateRoomRequest):
     room = Room(
         room_id, request.seed, max_sup, request.isPublic,
         time_control_minutes=time_minutes,
-        time_control_increment=time_increment
+        time_control_increment=time_increment,
+        time_control_on_disconnect=request.timeControl.onDisconnect,
+        allow_uneven_splits=request.allowUnevenSplits,
+        variant=request.variant,
+        setup=request.setup,
+        start_position=request.startPosition if request.setup == "custom" else None
     )
     rooms[room_id] = room
 
@@ -200,8 +277,13 @@ async def create_room(request: CreateRoomRequest):
         room_id=room_id,
         player_color="white",  # Host is always white
         max_superpositions=max_sup,
+        allow_uneven_splits=room.allow_uneven_splits,
+        variant=room.variant,
+        setup=room.setup,
+        start_position=room.start_position,
         time_control_minutes=time_minutes,
-        time_control_increment=time_increment
+        time_control_increment=time_increment,
+        time_control_on_disconnect=room.time_control_on_disconnect
     )
 
 
@@ -221,6 +303,9 @@ async def list_open_games():
             open_games.append(OpenGameInfo(
                 room_id=room.room_id,
                 max_superpositions=room.max_superpositions,
+                allow_uneven_splits=room.allow_uneven_splits,
+                variant=room.variant,
+                setup=room.setup,
                 time_control=time_control_str,
                 created_at=room.created_at.isoformat(),
                 waiting_seconds=waiting_seconds
@@ -243,20 +328,60 @@ async def join_room(request: JoinRoomRequest):
         raise HTTPException(status_code=400, detail="Room is full")
 
     room.guest_seed = request.seed
+    room.touch()
 
     return JoinRoomResponse(
         room_id=room.room_id,
         player_color="black",  # Guest is always black
         game_seed=room.game_seed or 0,
         max_superpositions=room.max_superpositions,
+        allow_uneven_splits=room.allow_uneven_splits,
+        variant=room.variant,
+        setup=room.setup,
+        start_position=room.start_position,
         time_control_minutes=room.time_control_minutes,
-        time_control_increment=room.time_control_increment
+        time_control_increment=room.time_control_increment,
+        time_control_on_disconnect=room.time_control_on_disconnect
     )
 
 
+async def spectate_room(websocket: WebSocket, room: Room):
+    """Stream the host's game snapshots to a spectator until it leaves."""
+    if len(room.spectators) >= MAX_SPECTATORS:
+        await websocket.close(code=4001, reason="Too many spectators")
+        return
+
+    room.spectators.append(websocket)
+    try:
+        await websocket.send_json({"type": "connected", "role": "spectator"})
+        # Catch up with the game so far
+        if room.spectator_snapshot:
+            await websocket.send_json(room.spectator_snapshot)
+        await room.notify_spectator_count()
+
+        # Spectators only listen - anything they send is dropped
+        while True:
+            await websocket.receive_json()
+
+    except WebSocketDisconnect:
+        pass
+    finally:
+        # Whatever ended the connection, the slot is free again
+        if websocket in room.spectators:
+            room.spectators.remove(websocket)
+            await room.notify_spectator_count()
+
+
 @app.websocket("/ws/{room_id}")
-async def websocket_endpoint(websocket: WebSocket, room_id: str):
-    """WebSocket for signaling (SDP/ICE exchange)."""
+async def websocket_endpoint(websocket: WebSocket, room_id: str, role: Optional[str] = None,
+                             token: Optional[str] = None):
+    """WebSocket for signaling (SDP/ICE exchange).
+
+    A player rejoining after a dropped connection passes its role and the
+    token it got on first joining, so it gets its own slot back even if the
+    other player rejoins first - and nobody else can take it.
+    Spectators (role "spectator") get the host's snapshots instead.
+    """
     room_id = room_id.upper()
     room = rooms.get(room_id)
 
@@ -266,13 +391,16 @@ async def websocket_endpoint(websocket: WebSocket, room_id: str):
 
     await websocket.accept()
 
-    role: str | None = None
+    if role == "spectator":
+        await spectate_room(websocket, room)
+        return
 
-    # Assign to first available slot
-    if room.host_ws is None:
+    # Assign to the requested slot, or the first available one that is
+    # still open to this client
+    if room.host_ws is None and role != "guest" and room.may_claim("host", token):
         room.host_ws = websocket
         role = "host"
-    elif room.guest_ws is None:
+    elif room.guest_ws is None and role != "host" and room.may_claim("guest", token):
         room.guest_ws = websocket
         role = "guest"
         # Notify host that guest joined
@@ -284,18 +412,38 @@ async def websocket_endpoint(websocket: WebSocket, room_id: str):
     else:
         await websocket.close(code=4001, reason="Room is full")
         return
+    room.touch()
 
     try:
         # Send role confirmation
         await websocket.send_json({
             "type": "connected",
             "role": role,
-            "game_seed": room.game_seed
+            "token": room.issue_token(role),
+            "game_seed": room.game_seed,
+            "spectators": len(room.spectators)
         })
 
+        # Host rejoined a room whose guest is still there (reload or crash) -
+        # it starts the P2P connection again
+        if role == "host" and room.guest_ws:
+            await websocket.send_json({
+                "type": "peer_joined",
+                "game_seed": room.game_seed
+            })
+
         # Relay messages between peers
         while True:
             data = await websocket.receive_json()
+            room.touch()
+
+            # The host's game snapshots go to the spectators, not the guest
+            if data.get("type") == "spectate":
+                if websocket == room.host_ws:
+                    room.spectator_snapshot = data
+                    await room.broadcast(data, room.spectators)
+                continue
+
             other_ws = room.get_other_ws(websocket)
 
             if other_ws:
@@ -309,6 +457,8 @@ async def websocket_endpoint(websocket: WebSocket, room_id: str):
         # Clear the WebSocket reference
         if room.host_ws == websocket:
             room.host_ws = None
+            # Spectators wait for the host to come back
+            await room.broadcast({"type": "peer_disconnected"}, room.spectators)
         elif room.guest_ws == websocket:
             room.guest_ws = None
 